@@ -1,46 +1,231 @@
-import React, { useState } from 'react';
-import { Copy, RotateCcw, History, ArrowRightLeft } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Copy, RotateCcw, History, ArrowRightLeft, Settings, BookOpen, XCircle, Zap, Columns, WifiOff, Library } from 'lucide-react';
 import { Logo } from './components/Logo';
 import { LanguageSelect } from './components/LanguageSelect';
 import { TextArea } from './components/TextArea';
 import { ImageUpload } from './components/ImageUpload';
+import { DocumentUpload } from './components/DocumentUpload';
 import { NotificationContainer } from './components/Notification';
+import { SettingsPanel } from './components/SettingsPanel';
+import { TranslationInfo } from './components/TranslationInfo';
+import { HistoryPanel } from './components/HistoryPanel';
+import { GlossaryPanel } from './components/GlossaryPanel';
+import { DictionaryPanel } from './components/DictionaryPanel';
+import { WordLookup } from './components/WordLookup';
+import { ExtraTargetLanguages } from './components/ExtraTargetLanguages';
+import { TranslationTabs } from './components/TranslationTabs';
+import { TranslationOutput } from './components/TranslationOutput';
+import { BilingualEditor } from './components/BilingualEditor';
 import { useNotifications } from './hooks/useNotifications';
-import { useTranslation } from './hooks/useTranslation';
-import { languages, targetLanguages } from './data/languages';
+import { useTranslation, TranslationHistory } from './hooks/useTranslation';
+import { useLiveTranslation } from './hooks/useLiveTranslation';
+import { useOfflineMode } from './hooks/useOfflineMode';
+import { getTextDirection, languages, targetLanguages } from './data/languages';
+import { TranslationResult, TranslationVariant } from './services/translationService';
+import { HistoryExchange, ExchangeFormat } from './services/historyExchange';
+import { FileService } from './services/fileService';
+import { DocumentService, DocumentTranslationResult } from './services/documentService';
+import { TextFormat } from './services/markupProtection';
+import { isCancelled } from './services/cancellation';
+import { OfflineService } from './services/offlineService';
+
+const textFormats: { value: TextFormat; label: string }[] = [
+  { value: 'plain', label: 'Текст' },
+  { value: 'html', label: 'HTML' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'icu', label: 'ICU' }
+];
 
 function App() {
   const [sourceText, setSourceText] = useState('');
   const [translatedText, setTranslatedText] = useState('');
+  const [translationResults, setTranslationResults] = useState<TranslationResult[]>([]);
+  const [activeTarget, setActiveTarget] = useState('en');
   const [fromLanguage, setFromLanguage] = useState('auto');
   const [toLanguage, setToLanguage] = useState('en');
+  const [extraTargets, setExtraTargets] = useState<string[]>([]);
+  const [textFormat, setTextFormat] = useState<TextFormat>('plain');
+  const [liveMode, setLiveMode] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+  const [textProgress, setTextProgress] = useState<{ done: number; total: number } | null>(null);
   const [currentImage, setCurrentImage] = useState<string | null>(null);
-  const [mode, setMode] = useState<'text' | 'image'>('text');
+  const [mode, setMode] = useState<'text' | 'image' | 'document'>('text');
+  const [documentFile, setDocumentFile] = useState<File | null>(null);
+  const [documentResult, setDocumentResult] = useState<DocumentTranslationResult | null>(null);
+  const [documentProgress, setDocumentProgress] = useState<{ done: number; total: number } | null>(null);
   const [showHistory, setShowHistory] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [showDictionaries, setShowDictionaries] = useState(false);
 
   const { notifications, addNotification, removeNotification } = useNotifications();
-  const { translateText, translateImage, loading, history, clearHistory } = useTranslation();
+  const {
+    translateText,
+    translateImage,
+    translateDocument,
+    cancel,
+    chooseVariant,
+    applyCorrection,
+    requestVariants,
+    loading,
+    history,
+    togglePin,
+    deleteHistoryEntry,
+    importHistory,
+    clearHistory
+  } = useTranslation();
+  const { offline } = useOfflineMode();
+
+  // Пока сеть есть, заранее загружаем данные локальных движков для выбранной пары языков
+  useEffect(() => {
+    if (!offline && fromLanguage !== 'auto') {
+      OfflineService.prepare(fromLanguage, toLanguage);
+    }
+  }, [offline, fromLanguage, toLanguage]);
+
+  // Основной язык перевода и дополнительные, на которые текст переводится одновременно
+  const targetLanguageCodes = [toLanguage, ...extraTargets.filter(code => code !== toLanguage)];
+  const translationResult = translationResults.find(result => result.targetLanguage === activeTarget)
+    ?? translationResults[0]
+    ?? null;
+  // Языки для словарных подсказок: после перевода известен и определенный исходный язык
+  const lookupSourceLanguage = translationResult?.sourceLanguage ?? fromLanguage;
+  const lookupTargetLanguage = translationResult?.targetLanguage ?? toLanguage;
+
+  const showResults = (results: TranslationResult[]) => {
+    const active = results.find(result => result.targetLanguage === activeTarget) ?? results[0];
+    setTranslationResults(results);
+    setActiveTarget(active?.targetLanguage ?? toLanguage);
+    setTranslatedText(active?.text ?? '');
+  };
+
+  // Обновленный перевод одного языка: после выбора варианта или запроса новых вариантов
+  const replaceResult = (updated: TranslationResult) => {
+    setTranslationResults(prev => prev.map(result => (
+      result.targetLanguage === updated.targetLanguage ? updated : result
+    )));
+    if (updated.targetLanguage === translationResult?.targetLanguage) {
+      setTranslatedText(updated.text);
+    }
+  };
+
+  const resetResults = () => {
+    setTranslatedText('');
+    setTranslationResults([]);
+  };
+
+  useLiveTranslation({
+    enabled: liveMode && mode === 'text',
+    text: sourceText,
+    fromLang: fromLanguage,
+    toLangs: targetLanguageCodes,
+    format: textFormat,
+    previous: translationResults,
+    translate: translateText,
+    cancel,
+    onResult: showResults,
+    onEmpty: resetResults,
+    onError: (error) => addNotification('error', 'Ошибка', `Не удалось перевести текст: ${error.message}`)
+  });
 
-  const handleTextTranslate = async () => {
+  const handleTextTranslate = async (sourceLanguage = fromLanguage) => {
     if (!sourceText.trim()) {
       addNotification('warning', 'Предупреждение', 'Введите текст для перевода');
       return;
     }
 
+    // По мере перевода показываем тот язык, который открыт во вкладке
+    const streamedTarget = targetLanguageCodes.includes(activeTarget) ? activeTarget : toLanguage;
+    setTextProgress(null);
     try {
-      const result = await translateText(sourceText, fromLanguage, toLanguage);
-      setTranslatedText(result);
-      
-      if (result === sourceText) {
-        addNotification('info', 'Информация', 'Текст уже на целевом языке');
-      } else {
-        addNotification('success', 'Успешно', 'Текст переведен');
-      }
+      const results = await translateText(sourceText, sourceLanguage, targetLanguageCodes, {
+        format: textFormat,
+        previous: translationResults,
+        // Длинный текст показываем по мере перевода фрагментов
+        onProgress: ({ targetLanguage, done, total, partialText }) => {
+          if (targetLanguage === streamedTarget) {
+            setTextProgress({ done, total });
+            setTranslatedText(partialText);
+          }
+        }
+      });
+      showResults(results);
+      notifyTranslationResults(results);
     } catch (error) {
+      if (isCancelled(error)) return;
       addNotification('error', 'Ошибка', `Не удалось перевести текст: ${(error as Error).message}`);
+    } finally {
+      setTextProgress(null);
+    }
+  };
+
+  // Пользователь поправил автоопределение: переводим заново с выбранного языка.
+  // В мгновенном режиме перевод перезапустится сам после смены исходного языка
+  const handleOverrideLanguage = (language: string) => {
+    setFromLanguage(language);
+    if (mode === 'text' && !liveMode) {
+      handleTextTranslate(language);
+    }
+  };
+
+  const notifyTranslationResults = (results: TranslationResult[]) => {
+    if (results.every(result => result.alreadyInTargetLanguage)) {
+      addNotification('info', 'Информация', 'Текст уже на целевом языке');
+    } else if (results.some(result => result.untranslatedChunks > 0)) {
+      addNotification('warning', 'Внимание', 'Часть текста осталась без перевода: провайдеры недоступны');
+    } else {
+      addNotification('success', 'Успешно', results.length > 1 ? `Текст переведен на языков: ${results.length}` : 'Текст переведен');
     }
   };
 
+  const handleSelectTarget = (targetLanguage: string) => {
+    const result = translationResults.find(item => item.targetLanguage === targetLanguage);
+    if (result) {
+      setActiveTarget(targetLanguage);
+      setTranslatedText(result.text);
+    }
+  };
+
+  const handleChooseVariant = async (chunkIndex: number, variant: TranslationVariant) => {
+    if (!translationResult) return;
+    try {
+      replaceResult(await chooseVariant(translationResult, chunkIndex, variant));
+    } catch (error) {
+      addNotification('error', 'Ошибка', `Не удалось сохранить вариант: ${(error as Error).message}`);
+    }
+  };
+
+  const handleCorrect = async (chunkIndex: number, correction: string) => {
+    if (!translationResult) return;
+    try {
+      replaceResult(await applyCorrection(translationResult, chunkIndex, correction));
+    } catch (error) {
+      addNotification('error', 'Ошибка', `Не удалось сохранить исправление: ${(error as Error).message}`);
+    }
+  };
+
+  const handleRequestVariants = async (chunkIndex: number) => {
+    if (!translationResult) return;
+    const chunk = translationResult.chunks[chunkIndex];
+    try {
+      const updated = await requestVariants(translationResult, chunkIndex);
+      replaceResult(updated);
+      if (updated.chunks[chunkIndex].variants.length === chunk.variants.length) {
+        addNotification('info', 'Варианты', 'Другие сервисы не предложили новых вариантов');
+      }
+    } catch (error) {
+      addNotification('error', 'Ошибка', `Не удалось получить варианты: ${(error as Error).message}`);
+    }
+  };
+
+  const handleExportTranslation = (result: TranslationResult) => {
+    FileService.download({
+      content: result.text,
+      fileName: `translation.${result.targetLanguage}.txt`,
+      mimeType: 'text/plain'
+    });
+  };
+
   const handleImageTranslate = async (imageFile: File) => {
     try {
       addNotification('info', 'Обработка', 'Распознаем текст на изображении...');
@@ -48,22 +233,73 @@ function App() {
       const imageUrl = URL.createObjectURL(imageFile);
       setCurrentImage(imageUrl);
       
-      const result = await translateImage(imageFile, fromLanguage, toLanguage);
-      setSourceText(result.extractedText);
-      setTranslatedText(result.translatedText);
+      const { extractedText, result } = await translateImage(imageFile, fromLanguage, toLanguage);
+      setSourceText(extractedText);
+      showResults([result]);
       
-      if (result.extractedText) {
-        addNotification('success', 'Успешно', `Распознан текст: "${result.extractedText.substring(0, 50)}${result.extractedText.length > 50 ? '...' : ''}"`);
+      if (result.untranslatedChunks > 0) {
+        addNotification('warning', 'Внимание', 'Часть распознанного текста осталась без перевода');
+      } else if (extractedText) {
+        addNotification('success', 'Успешно', `Распознан текст: "${extractedText.substring(0, 50)}${extractedText.length > 50 ? '...' : ''}"`);
       } else {
         addNotification('warning', 'Внимание', 'Текст на изображении не найден');
       }
     } catch (error) {
+      if (isCancelled(error)) return;
       console.error('Image translation error:', error);
       addNotification('error', 'Ошибка', `Ошибка обработки изображения: ${(error as Error).message}`);
       setCurrentImage(null);
     }
   };
 
+  const handleDocumentSelect = (file: File) => {
+    if (!DocumentService.detectFormat(file.name)) {
+      addNotification('error', 'Ошибка', 'Поддерживаются файлы TXT, Markdown, SRT, JSON и PO');
+      return;
+    }
+
+    // Перевод прежнего документа останавливаем, иначе его результат появится под именем нового файла
+    cancel();
+    setDocumentFile(file);
+    setDocumentResult(null);
+    setDocumentProgress(null);
+  };
+
+  const handleDocumentTranslate = async () => {
+    if (!documentFile) return;
+
+    try {
+      const result = await translateDocument(documentFile, fromLanguage, toLanguage, (done, total) => {
+        setDocumentProgress({ done, total });
+      });
+      setDocumentResult(result);
+
+      if (result.segments === 0) {
+        addNotification('warning', 'Внимание', 'В документе не найден текст для перевода');
+      } else if (result.untranslatedSegments > 0) {
+        addNotification('warning', 'Внимание', `Не переведено сегментов: ${result.untranslatedSegments} из ${result.segments}`);
+      } else {
+        addNotification('success', 'Успешно', `Документ переведен, сегментов: ${result.segments}`);
+      }
+    } catch (error) {
+      if (isCancelled(error)) return;
+      addNotification('error', 'Ошибка', `Не удалось перевести документ: ${(error as Error).message}`);
+    }
+  };
+
+  const handleCancel = () => {
+    cancel();
+    setDocumentProgress(null);
+    addNotification('info', 'Отменено', 'Операция остановлена');
+  };
+
+  const handleClearDocument = () => {
+    cancel();
+    setDocumentFile(null);
+    setDocumentResult(null);
+    setDocumentProgress(null);
+  };
+
   const handleCopyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -80,15 +316,60 @@ function App() {
     setToLanguage(fromLanguage);
     setSourceText(translatedText);
     setTranslatedText(sourceText);
+    setTranslationResults([]);
   };
 
   const handleClearAll = () => {
+    cancel();
     setSourceText('');
-    setTranslatedText('');
+    resetResults();
     setCurrentImage(null);
     addNotification('info', 'Очищено', 'Все поля очищены');
   };
 
+  const handleLoadHistoryEntry = (entry: TranslationHistory) => {
+    cancel();
+    setMode('text');
+    setFromLanguage(entry.fromLanguage);
+    setToLanguage(entry.toLanguage);
+    setSourceText(entry.sourceText);
+    setTranslatedText(entry.translatedText);
+    setTranslationResults([]);
+    setActiveTarget(entry.toLanguage);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleExportHistory = (entries: TranslationHistory[], format: ExchangeFormat) => {
+    FileService.download(HistoryExchange.export(entries, format));
+    addNotification('success', 'Экспорт', `Выгружено записей: ${entries.length}`);
+  };
+
+  const handleImportHistory = async (file: File) => {
+    const format = HistoryExchange.detectFormat(file.name);
+    if (!format) {
+      addNotification('error', 'Ошибка', 'Поддерживаются только файлы JSON, CSV и TMX');
+      return;
+    }
+
+    try {
+      const content = await FileService.readText(file);
+      const { entries, duplicates, invalid } = HistoryExchange.import(content, format, history);
+      await importHistory(entries);
+
+      const skipped = [
+        duplicates > 0 ? `дубликатов: ${duplicates}` : '',
+        invalid > 0 ? `с неподдерживаемыми языками или пустых: ${invalid}` : ''
+      ].filter(Boolean).join(', ');
+      addNotification(
+        entries.length > 0 ? 'success' : 'warning',
+        'Импорт',
+        `Добавлено записей: ${entries.length}${skipped ? `. Пропущено ${skipped}` : ''}`
+      );
+    } catch (error) {
+      addNotification('error', 'Ошибка', `Не удалось импортировать историю: ${(error as Error).message}`);
+    }
+  };
+
   const handleClearImage = () => {
     setCurrentImage(null);
     if (currentImage) {
@@ -110,6 +391,15 @@ function App() {
             <Logo />
           </div>
 
+          {offline && (
+            <div className="flex justify-center mb-6">
+              <div className="inline-flex items-center gap-2 px-4 py-2 glass-border rounded-full text-sm text-yellow-400">
+                <WifiOff className="w-4 h-4" />
+                Офлайн-режим: перевод выполняется локально, качество может быть ниже
+              </div>
+            </div>
+          )}
+
           {/* Mode Toggle */}
           <div className="flex justify-center mb-8">
             <div className="glass rounded-full p-1 flex">
@@ -133,6 +423,16 @@ function App() {
               >
                 Изображение
               </button>
+              <button
+                onClick={() => setMode('document')}
+                className={`px-6 py-2 rounded-full transition-all ${
+                  mode === 'document' 
+                    ? 'bg-gradient-to-r from-orange-400 to-orange-600 text-white' 
+                    : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                Документ
+              </button>
             </div>
           </div>
 
@@ -143,6 +443,8 @@ function App() {
               onChange={setFromLanguage}
               languages={languages}
               label="Исходный язык"
+              detection={mode === 'text' && !loading ? translationResult?.detection : null}
+              onOverride={handleOverrideLanguage}
             />
             
             <div className="flex justify-center items-end pb-4">
@@ -159,42 +461,109 @@ function App() {
               </button>
             </div>
 
-            <LanguageSelect
-              value={toLanguage}
-              onChange={setToLanguage}
-              languages={targetLanguages}
-              label="Язык перевода"
-            />
+            <div>
+              <LanguageSelect
+                value={toLanguage}
+                onChange={setToLanguage}
+                languages={targetLanguages}
+                label="Язык перевода"
+              />
+              {mode === 'text' && (
+                <ExtraTargetLanguages primary={toLanguage} value={extraTargets} onChange={setExtraTargets} />
+              )}
+            </div>
           </div>
 
           {/* Translation Interface */}
           {mode === 'text' ? (
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
-              <TextArea
-                value={sourceText}
-                onChange={setSourceText}
-                placeholder="Введите текст для перевода..."
-                label="Исходный текст"
-              />
+              <WordLookup fromLang={lookupSourceLanguage} toLang={lookupTargetLanguage}>
+                <TextArea
+                  value={sourceText}
+                  onChange={setSourceText}
+                  placeholder="Введите текст для перевода..."
+                  label="Исходный текст"
+                  dir={getTextDirection(fromLanguage)}
+                />
+              </WordLookup>
               
-              <div className="relative">
+              <div>
+                {translationResults.length > 1 && (
+                  <TranslationTabs
+                    results={translationResults}
+                    active={translationResult?.targetLanguage ?? activeTarget}
+                    onSelect={handleSelectTarget}
+                    onCopy={handleCopyToClipboard}
+                    onExport={handleExportTranslation}
+                  />
+                )}
+                <WordLookup fromLang={lookupTargetLanguage} toLang={lookupSourceLanguage}>
+                  {/* Готовый перевод показываем по фрагментам, чтобы можно было выбрать вариант */}
+                  {translationResult && !loading && translationResult.chunks.length > 0 && translatedText === translationResult.text ? (
+                    <TranslationOutput
+                      result={translationResult}
+                      label="Перевод"
+                      onChooseVariant={handleChooseVariant}
+                      onRequestVariants={handleRequestVariants}
+                    />
+                  ) : (
+                    <TextArea
+                      value={translatedText}
+                      onChange={() => {}}
+                      placeholder="Перевод появится здесь..."
+                      label="Перевод"
+                      readonly
+                      loading={loading}
+                      progress={textProgress}
+                      dir={getTextDirection(lookupTargetLanguage)}
+                    />
+                  )}
+                  {translatedText && (
+                    <button
+                      onClick={() => handleCopyToClipboard(translatedText)}
+                      className="absolute top-8 right-3 p-2 glass-border rounded-lg hover:bg-orange-400 hover:bg-opacity-20 text-orange-400 transition-all"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                  )}
+                </WordLookup>
+              </div>
+
+              {showEditor && translationResult && !loading && translationResult.chunks.length > 0 && (
+                <div className="lg:col-span-2">
+                  <BilingualEditor result={translationResult} onCorrect={handleCorrect} />
+                </div>
+              )}
+
+              {translationResult && (
+                <div className="lg:col-span-2">
+                  <TranslationInfo result={translationResult} />
+                </div>
+              )}
+            </div>
+          ) : mode === 'document' ? (
+            <div className="space-y-6 mb-8">
+              <DocumentUpload
+                file={documentFile}
+                onFileSelect={handleDocumentSelect}
+                onClearFile={handleClearDocument}
+                onTranslate={handleDocumentTranslate}
+                onDownload={() => documentResult && FileService.download(documentResult.file)}
+                result={documentResult}
+                progress={documentProgress}
+                loading={loading}
+              />
+
+              {documentResult && (
                 <TextArea
-                  value={translatedText}
+                  value={documentResult.file.content}
                   onChange={() => {}}
-                  placeholder="Перевод появится здесь..."
-                  label="Перевод"
+                  placeholder=""
+                  label="Предпросмотр перевода"
                   readonly
-                  loading={loading}
+                  dir={getTextDirection(toLanguage)}
                 />
-                {translatedText && (
-                  <button
-                    onClick={() => handleCopyToClipboard(translatedText)}
-                    className="absolute top-8 right-3 p-2 glass-border rounded-lg hover:bg-orange-400 hover:bg-opacity-20 text-orange-400 transition-all"
-                  >
-                    <Copy className="w-4 h-4" />
-                  </button>
-                )}
-              </div>
+              )}
             </div>
           ) : (
             <div className="space-y-6 mb-8">
@@ -213,6 +582,7 @@ function App() {
                     placeholder="Распознанный текст появится здесь..."
                     label="Распознанный текст"
                     readonly
+                    dir={getTextDirection(fromLanguage)}
                   />
                   
                   <div className="relative">
@@ -223,6 +593,7 @@ function App() {
                       label="Перевод"
                       readonly
                       loading={loading}
+                      dir={getTextDirection(lookupTargetLanguage)}
                     />
                     {translatedText && (
                       <button
@@ -233,6 +604,12 @@ function App() {
                       </button>
                     )}
                   </div>
+
+                  {translationResult && (
+                    <div className="lg:col-span-2">
+                      <TranslationInfo result={translationResult} />
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -241,12 +618,66 @@ function App() {
           {/* Action Buttons */}
           <div className="flex flex-wrap gap-4 justify-center mb-8">
             {mode === 'text' && (
+              <>
+                <label
+                  className={`flex items-center px-4 py-3 glass-border rounded-lg cursor-pointer transition-all ${
+                    liveMode ? 'text-orange-400' : 'text-gray-300'
+                  }`}
+                  title="Переводить автоматически после паузы в наборе"
+                >
+                  <input
+                    type="checkbox"
+                    checked={liveMode}
+                    onChange={(e) => setLiveMode(e.target.checked)}
+                    className="accent-orange-500 mr-2"
+                  />
+                  <Zap className="w-4 h-4 mr-1" />
+                  Мгновенный перевод
+                </label>
+                <label
+                  className={`flex items-center px-4 py-3 glass-border rounded-lg cursor-pointer transition-all ${
+                    showEditor ? 'text-orange-400' : 'text-gray-300'
+                  }`}
+                  title="Исходные и переведенные предложения рядом, перевод можно исправить"
+                >
+                  <input
+                    type="checkbox"
+                    checked={showEditor}
+                    onChange={(e) => setShowEditor(e.target.checked)}
+                    className="accent-orange-500 mr-2"
+                  />
+                  <Columns className="w-4 h-4 mr-1" />
+                  Двуязычный редактор
+                </label>
+                <select
+                  value={textFormat}
+                  onChange={(e) => setTextFormat(e.target.value as TextFormat)}
+                  className="px-4 py-3 glass-border bg-transparent text-gray-300 rounded-lg focus:outline-none focus:border-orange-400/50"
+                  title="Формат текста: разметка и переменные не переводятся"
+                >
+                  {textFormats.map(format => (
+                    <option key={format.value} value={format.value} className="bg-gray-800">
+                      {format.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleTextTranslate()}
+                  disabled={loading || !sourceText.trim()}
+                  className="px-8 py-3 bg-gradient-to-r from-orange-400 to-orange-600 text-white rounded-lg hover:from-orange-500 hover:to-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all hover-glow"
+                >
+                  {loading ? 'Переводим...' : 'Перевести'}
+                </button>
+              </>
+            )}
+
+            {loading && (
               <button
-                onClick={handleTextTranslate}
-                disabled={loading || !sourceText.trim()}
-                className="px-8 py-3 bg-gradient-to-r from-orange-400 to-orange-600 text-white rounded-lg hover:from-orange-500 hover:to-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all hover-glow"
+                onClick={handleCancel}
+                className="px-6 py-3 glass-border text-red-400 rounded-lg hover:bg-red-500 hover:bg-opacity-20 transition-all hover-glow"
               >
-                {loading ? 'Переводим...' : 'Перевести'}
+                <XCircle className="w-4 h-4 mr-2 inline" />
+                Отменить
               </button>
             )}
             
@@ -265,50 +696,55 @@ function App() {
               <History className="w-4 h-4 mr-2 inline" />
               История
             </button>
+
+            <button
+              onClick={() => setShowGlossary(!showGlossary)}
+              className="px-6 py-3 glass-border text-gray-300 rounded-lg hover:bg-gray-700 hover:bg-opacity-50 transition-all hover-glow"
+            >
+              <BookOpen className="w-4 h-4 mr-2 inline" />
+              Глоссарий
+            </button>
+
+            <button
+              onClick={() => setShowDictionaries(!showDictionaries)}
+              className="px-6 py-3 glass-border text-gray-300 rounded-lg hover:bg-gray-700 hover:bg-opacity-50 transition-all hover-glow"
+            >
+              <Library className="w-4 h-4 mr-2 inline" />
+              Словари
+            </button>
+
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              className="px-6 py-3 glass-border text-gray-300 rounded-lg hover:bg-gray-700 hover:bg-opacity-50 transition-all hover-glow"
+            >
+              <Settings className="w-4 h-4 mr-2 inline" />
+              Настройки
+            </button>
           </div>
 
+          {/* Glossary */}
+          {showGlossary && <GlossaryPanel />}
+
+          {/* Dictionaries */}
+          {showDictionaries && <DictionaryPanel onNotify={addNotification} />}
+
+          {/* Settings */}
+          {showSettings && (
+            <SettingsPanel onNotify={addNotification} />
+          )}
+
           {/* History */}
-          {showHistory && history.length > 0 && (
-            <div className="glass-border rounded-lg p-6">
-              <h3 className="text-xl font-semibold text-white mb-4">История переводов</h3>
-              <div className="flex justify-between items-center mb-4">
-                <span className="text-sm text-gray-400">
-                  Всего переводов: {history.length}
-                </span>
-                <button
-                  onClick={clearHistory}
-                  className="text-sm text-red-400 hover:text-red-300 transition-colors"
-                >
-                  Очистить историю
-                </button>
-              </div>
-              <div className="space-y-4 max-h-96 overflow-y-auto">
-                {history.map((item) => (
-                  <div key={item.id} className="glass-border rounded-lg p-4 hover-glow">
-                    <div className="flex justify-between items-start mb-2">
-                      <span className="text-sm text-orange-400">
-                        {item.fromLanguage.toUpperCase()} → {item.toLanguage.toUpperCase()}
-                      </span>
-                      <span className="text-xs text-gray-400">
-                        {item.timestamp.toLocaleString()}
-                      </span>
-                    </div>
-                    <div className="text-sm text-gray-300 mb-1">
-                      <strong>Исходный:</strong> {item.sourceText}
-                    </div>
-                    <div className="text-sm text-white">
-                      <strong>Перевод:</strong> {item.translatedText}
-                    </div>
-                    <button
-                      onClick={() => handleCopyToClipboard(item.translatedText)}
-                      className="mt-2 text-xs text-orange-400 hover:text-orange-300 transition-colors"
-                    >
-                      Копировать перевод
-                    </button>
-                  </div>
-                ))}
-              </div>
-            </div>
+          {showHistory && (
+            <HistoryPanel
+              history={history}
+              onLoad={handleLoadHistoryEntry}
+              onCopy={handleCopyToClipboard}
+              onTogglePin={togglePin}
+              onDelete={deleteHistoryEntry}
+              onClear={clearHistory}
+              onExport={handleExportHistory}
+              onImport={handleImportHistory}
+            />
           )}
         </div>
       </div>
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { PencilLine } from 'lucide-react';
+import { TranslationResult } from '../services/translationService';
+import { TranslationCache } from '../services/translationCache';
+import { getTextDirection } from '../data/languages';
+
+interface BilingualEditorProps {
+  result: TranslationResult;
+  onCorrect: (chunkIndex: number, correction: string) => Promise<void>;
+}
+
+// Двуязычный редактор: исходный сегмент и его перевод в одной строке, перевод можно исправить
+export const BilingualEditor: React.FC<BilingualEditorProps> = ({ result, onCorrect }) => {
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  // Черновики относятся к фрагментам конкретного перевода
+  useEffect(() => {
+    setDrafts({});
+  }, [result.separators]);
+
+  const dropDraft = (index: number) => {
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[index];
+      return next;
+    });
+  };
+
+  const handleSave = async (index: number) => {
+    const draft = drafts[index];
+    if (draft === undefined) return;
+
+    if (draft.trim() && draft !== result.chunks[index].translation) {
+      await onCorrect(index, draft);
+    }
+    dropDraft(index);
+  };
+
+  // Фрагменты из одной разметки или без букв не переводились, их не показываем
+  const rows = result.chunks
+    .map((chunk, index) => ({ chunk, index }))
+    .filter(({ chunk }) => chunk.provider || chunk.fallback);
+
+  return (
+    <div className="glass-border rounded-lg p-4">
+      <div className="grid grid-cols-2 gap-4 text-xs text-gray-400 mb-2 px-2">
+        <span>Исходный текст</span>
+        <span>Перевод — исправления сохраняются при выходе из поля</span>
+      </div>
+      <div className="space-y-1 max-h-96 overflow-auto">
+        {rows.map(({ chunk, index }) => {
+          const isCorrected = chunk.provider === TranslationCache.USER_PROVIDER;
+          const hasBadges = isCorrected || chunk.memoryScore !== null;
+          const highlight = hovered === index ? 'bg-orange-400/10' : '';
+
+          return (
+            <div
+              key={index}
+              onMouseEnter={() => setHovered(index)}
+              onMouseLeave={() => setHovered(null)}
+              className="grid grid-cols-2 gap-4"
+            >
+              <div
+                dir={getTextDirection(chunk.sourceLanguage)}
+                className={`px-2 py-1 rounded text-sm text-gray-300 whitespace-pre-wrap transition-colors ${highlight}`}
+              >
+                {chunk.source}
+              </div>
+              <div className={`relative rounded transition-colors ${highlight}`}>
+                <textarea
+                  value={drafts[index] ?? chunk.translation}
+                  onChange={(e) => setDrafts(prev => ({ ...prev, [index]: e.target.value }))}
+                  onBlur={() => handleSave(index)}
+                  onKeyDown={(e) => e.key === 'Escape' && dropDraft(index)}
+                  dir={getTextDirection(result.targetLanguage)}
+                  rows={Math.max(1, Math.ceil(chunk.translation.length / 60))}
+                  className={`w-full px-2 py-1 ${isCorrected && chunk.memoryScore !== null ? 'pr-20' : 'pr-10'} bg-transparent text-sm rounded resize-none focus-orange border-0 ${
+                    chunk.fallback === 'untranslated' ? 'text-red-300' : chunk.fallback === 'partial' ? 'text-yellow-200' : 'text-white'
+                  }`}
+                />
+                {hasBadges && (
+                  <div className="absolute top-1 right-1 flex items-center gap-1 text-orange-400">
+                    {isCorrected && (
+                      <span title="Ваше исправление">
+                        <PencilLine className="w-4 h-4" />
+                      </span>
+                    )}
+                    {chunk.memoryScore !== null && (
+                      <span className="text-xs" title="Совпадение с памятью переводов">
+                        {chunk.memoryScore}%
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Database, Trash2 } from 'lucide-react';
+import { TranslationCache, CacheSettings as CacheSettingsData, CacheStats } from '../services/translationCache';
+import { TranslationMemory } from '../services/translationMemory';
+import { NotificationData } from './Notification';
+
+interface CacheSettingsProps {
+  onNotify: (type: NotificationData['type'], title: string, message: string) => void;
+}
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} Б`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} КБ`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} МБ`;
+};
+
+export const CacheSettings: React.FC<CacheSettingsProps> = ({ onNotify }) => {
+  const [settings, setSettings] = useState<CacheSettingsData>(() => TranslationCache.getSettings());
+  const [stats, setStats] = useState<CacheStats | null>(null);
+
+  const refreshStats = useCallback(async () => {
+    setStats(await TranslationCache.getStats());
+  }, []);
+
+  useEffect(() => {
+    refreshStats();
+  }, [refreshStats]);
+
+  const handleChange = async (changes: Partial<CacheSettingsData>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+    try {
+      await TranslationCache.configure(changes);
+      await refreshStats();
+    } catch (error) {
+      onNotify('error', 'Ошибка', `Не удалось применить настройки кэша: ${(error as Error).message}`);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await TranslationCache.clear();
+      await refreshStats();
+      onNotify('success', 'Кэш очищен', 'Сохраненные переводы удалены, ваши исправления остались');
+    } catch (error) {
+      onNotify('error', 'Ошибка', `Не удалось очистить кэш: ${(error as Error).message}`);
+    }
+  };
+
+  // Исправления нельзя получить заново у провайдеров, поэтому удаляются только после подтверждения
+  const handleClearCorrections = async () => {
+    if (!window.confirm('Удалить все ваши исправления переводов? Их нельзя будет восстановить.')) {
+      return;
+    }
+    try {
+      await TranslationCache.clearCorrections();
+      // Исправления входят в память переводов
+      TranslationMemory.reset();
+      await refreshStats();
+      onNotify('success', 'Исправления удалены', 'Переводы снова будут запрашиваться у провайдеров');
+    } catch (error) {
+      onNotify('error', 'Ошибка', `Не удалось удалить исправления: ${(error as Error).message}`);
+    }
+  };
+
+  const lookups = stats ? stats.hits + stats.misses : 0;
+
+  return (
+    <div className="glass-border rounded-lg p-4 mt-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => handleChange({ enabled: e.target.checked })}
+            className="accent-orange-500"
+          />
+          <Database className="w-4 h-4 text-orange-400" />
+          <span className="font-medium text-white">Кэш переводов</span>
+        </label>
+        <button
+          onClick={handleClear}
+          className="inline-flex items-center px-3 py-1 text-xs glass-border text-red-400 rounded-lg hover:bg-red-400 hover:bg-opacity-20 transition-all"
+        >
+          <Trash2 className="w-3 h-3 mr-1" />
+          Очистить кэш
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+        <label className="text-xs text-gray-400">
+          Максимальный размер, МБ
+          <input
+            type="number"
+            min={1}
+            value={settings.maxSizeMb}
+            onChange={(e) => handleChange({ maxSizeMb: Math.max(1, Number(e.target.value) || 1) })}
+            className="mt-1 w-full px-3 py-2 bg-gray-800/50 text-white text-sm rounded-lg border border-gray-600/30 focus:outline-none focus:border-orange-400/50"
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Срок хранения, ч
+          <input
+            type="number"
+            min={1}
+            value={settings.ttlHours}
+            onChange={(e) => handleChange({ ttlHours: Math.max(1, Number(e.target.value) || 1) })}
+            className="mt-1 w-full px-3 py-2 bg-gray-800/50 text-white text-sm rounded-lg border border-gray-600/30 focus:outline-none focus:border-orange-400/50"
+          />
+        </label>
+      </div>
+
+      {stats && (
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-gray-400">
+          <span>Записей: <span className="text-white">{stats.entries}</span></span>
+          <span>Размер: <span className="text-white">{formatSize(stats.sizeBytes)}</span></span>
+          {stats.corrections > 0 && (
+            <span title="Исправления не входят в лимит размера, не вытесняются и не удаляются при очистке кэша">
+              Ваших исправлений: <span className="text-white">{stats.corrections}</span>
+              <button
+                onClick={handleClearCorrections}
+                className="ml-2 text-red-400 hover:text-red-300 underline transition-colors"
+              >
+                удалить
+              </button>
+            </span>
+          )}
+          <span>Попаданий: <span className="text-white">{stats.hits}</span></span>
+          <span>Промахов: <span className="text-white">{stats.misses}</span></span>
+          {lookups > 0 && (
+            <span>Эффективность: <span className="text-white">{Math.round((stats.hits / lookups) * 100)}%</span></span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
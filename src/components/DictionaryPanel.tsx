@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Library, Download, Trash2, RefreshCw } from 'lucide-react';
+import { useDictionaries } from '../hooks/useDictionaries';
+import { DictionaryPackInfo } from '../services/dictionaryService';
+import { getLanguageName } from '../data/languages';
+import { NotificationData } from './Notification';
+
+interface DictionaryPanelProps {
+  onNotify: (type: NotificationData['type'], title: string, message: string) => void;
+}
+
+const getPackName = (pack: { from: string; to: string }): string =>
+  `${getLanguageName(pack.from)} → ${getLanguageName(pack.to)}`;
+
+// Менеджер словарей: установка, обновление и удаление пакетов по языковым парам
+export const DictionaryPanel: React.FC<DictionaryPanelProps> = ({ onNotify }) => {
+  const { available, installed, busy, error, install, remove } = useDictionaries();
+  const [query, setQuery] = useState('');
+
+  const visible = available.filter(pack => getPackName(pack).toLowerCase().includes(query.trim().toLowerCase()));
+
+  const handleInstall = async (pack: DictionaryPackInfo) => {
+    try {
+      await install(pack);
+      onNotify('success', 'Словарь установлен', getPackName(pack));
+    } catch (installError) {
+      onNotify('error', 'Ошибка', (installError as Error).message);
+    }
+  };
+
+  const handleRemove = async (pack: DictionaryPackInfo) => {
+    try {
+      await remove(pack.id);
+      onNotify('info', 'Словарь удален', getPackName(pack));
+    } catch (removeError) {
+      onNotify('error', 'Ошибка', `Не удалось удалить словарь: ${(removeError as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="glass-border rounded-lg p-6 mb-8">
+      <h3 className="text-xl font-semibold text-white mb-2 flex items-center gap-2">
+        <Library className="w-5 h-5 text-orange-400" />
+        Словари
+      </h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Установленные словари работают без сети: по ним переводятся отдельные слова, когда провайдеры недоступны,
+        а двойной щелчок по слову в тексте показывает словарную статью.
+      </p>
+
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Поиск по языкам..."
+        className="w-full mb-4 px-3 py-2 bg-gray-800/50 text-white text-sm rounded-lg border border-gray-600/30 focus:outline-none focus:border-orange-400/50"
+      />
+
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+      <div className="space-y-2 max-h-96 overflow-auto">
+        {visible.map(pack => {
+          const current = installed.find(item => item.id === pack.id);
+          const hasUpdate = current !== undefined && current.version < pack.version;
+
+          return (
+            <div key={pack.id} className="flex flex-wrap items-center gap-3 px-3 py-2 glass-border rounded-lg text-sm">
+              <span className="text-white flex-1">{getPackName(pack)}</span>
+              <span className="text-xs text-gray-400">статей: {pack.entries}</span>
+              <span className="text-xs text-gray-500">
+                v{pack.version}{current && !hasUpdate && ' · установлен'}
+                {hasUpdate && ` · установлена v${current.version}`}
+              </span>
+              {(!current || hasUpdate) && (
+                <button
+                  onClick={() => handleInstall(pack)}
+                  disabled={busy === pack.id}
+                  className="inline-flex items-center px-3 py-1 text-xs glass-border text-orange-400 rounded-lg hover:bg-orange-400 hover:bg-opacity-20 disabled:opacity-50 transition-all"
+                >
+                  {hasUpdate ? <RefreshCw className="w-3 h-3 mr-1" /> : <Download className="w-3 h-3 mr-1" />}
+                  {hasUpdate ? 'Обновить' : 'Установить'}
+                </button>
+              )}
+              {current && (
+                <button
+                  onClick={() => handleRemove(pack)}
+                  disabled={busy === pack.id}
+                  className="inline-flex items-center px-3 py-1 text-xs glass-border text-red-400 rounded-lg hover:bg-red-400 hover:bg-opacity-20 disabled:opacity-50 transition-all"
+                >
+                  <Trash2 className="w-3 h-3 mr-1" />
+                  Удалить
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
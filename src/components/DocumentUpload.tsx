@@ -0,0 +1,148 @@
+import React, { useState, useRef } from 'react';
+import { FileText, Upload, X, Download } from 'lucide-react';
+import { DocumentService, DocumentTranslationResult } from '../services/documentService';
+
+interface DocumentUploadProps {
+  file: File | null;
+  onFileSelect: (file: File) => void;
+  onClearFile: () => void;
+  onTranslate: () => void;
+  onDownload: () => void;
+  result: DocumentTranslationResult | null;
+  progress: { done: number; total: number } | null;
+  loading?: boolean;
+}
+
+export const DocumentUpload: React.FC<DocumentUploadProps> = ({
+  file,
+  onFileSelect,
+  onClearFile,
+  onTranslate,
+  onDownload,
+  result,
+  progress,
+  loading = false
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dragOver, setDragOver] = useState(false);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+
+    const files = e.dataTransfer.files;
+    if (files.length > 0) {
+      onFileSelect(files[0]);
+    }
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) {
+      onFileSelect(files[0]);
+    }
+    e.target.value = '';
+  };
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="relative">
+      <label className="block text-sm font-medium text-gray-300 mb-2">
+        Документ для перевода
+      </label>
+
+      {file ? (
+        <div className="glass rounded-lg p-4 hover-glow">
+          <div className="glass-border rounded-lg p-4 space-y-4">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3 min-w-0">
+                <FileText className="w-8 h-8 text-orange-400 flex-shrink-0" />
+                <div className="min-w-0">
+                  <div className="text-white font-medium truncate">{file.name}</div>
+                  <div className="text-xs text-gray-400">{(file.size / 1024).toFixed(1)} КБ</div>
+                </div>
+              </div>
+              <button
+                onClick={onClearFile}
+                disabled={loading}
+                className="bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white rounded-full p-1 transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            {progress && (
+              <div>
+                <div className="flex justify-between text-xs text-gray-400 mb-1">
+                  <span>Сегментов переведено: {progress.done} из {progress.total}</span>
+                  <span>{percent}%</span>
+                </div>
+                <div className="h-2 bg-gray-700/50 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-orange-400 to-orange-600 transition-all duration-300"
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={onTranslate}
+                disabled={loading}
+                className="px-6 py-2 bg-gradient-to-r from-orange-400 to-orange-600 text-white rounded-lg hover:from-orange-500 hover:to-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all hover-glow"
+              >
+                {loading ? 'Переводим...' : 'Перевести документ'}
+              </button>
+              {result && (
+                <button
+                  onClick={onDownload}
+                  className="inline-flex items-center px-6 py-2 glass-border text-orange-400 rounded-lg hover:bg-orange-400 hover:bg-opacity-20 transition-all"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Скачать {result.file.fileName}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div
+          className={`glass-border rounded-lg border-2 border-dashed transition-all cursor-pointer hover-glow ${
+            dragOver ? 'border-orange-400 bg-orange-400 bg-opacity-10' : 'border-gray-600'
+          }`}
+          onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+          onDragLeave={(e) => { e.preventDefault(); setDragOver(false); }}
+          onDrop={handleDrop}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <div className="p-8 text-center">
+            <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-300 mb-2">
+              Перетащите документ сюда или нажмите для выбора
+            </p>
+            <p className="text-xs text-gray-500 mb-4">
+              TXT, Markdown, SRT, JSON, gettext PO — структура файла сохранится
+            </p>
+            <button
+              type="button"
+              className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-orange-400 to-orange-600 text-white rounded-lg hover:from-orange-500 hover:to-orange-700 transition-all"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Выбрать файл
+            </button>
+          </div>
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={DocumentService.acceptedExtensions}
+        onChange={handleFileSelect}
+        className="hidden"
+      />
+    </div>
+  );
+};
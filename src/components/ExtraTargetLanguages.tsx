@@ -0,0 +1,43 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { targetLanguages, getLanguageName } from '../data/languages';
+
+interface ExtraTargetLanguagesProps {
+  primary: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+
+// Дополнительные языки перевода: тот же текст переводится на них одновременно с основным
+export const ExtraTargetLanguages: React.FC<ExtraTargetLanguagesProps> = ({ primary, value, onChange }) => {
+  const available = targetLanguages.filter(lang => lang.code !== primary && !value.includes(lang.code));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2">
+      {value.filter(code => code !== primary).map(code => (
+        <span key={code} className="inline-flex items-center gap-1 px-3 py-1 glass-border rounded-full text-xs text-orange-300">
+          {getLanguageName(code)}
+          <button
+            onClick={() => onChange(value.filter(item => item !== code))}
+            className="text-gray-400 hover:text-red-400 transition-colors"
+            title="Убрать язык"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      {available.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onChange([...value, e.target.value])}
+          className="px-3 py-1 bg-gray-800/50 text-gray-300 text-xs rounded-full border border-gray-600/30 focus:outline-none focus:border-orange-400/50"
+        >
+          <option value="">+ Ещё язык</option>
+          {available.map(lang => (
+            <option key={lang.code} value={lang.code}>{lang.name}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, BookOpen } from 'lucide-react';
+import { useGlossary } from '../hooks/useGlossary';
+import { ANY_LANGUAGE, GlossaryRule } from '../services/glossaryService';
+import { targetLanguages } from '../data/languages';
+
+type RuleDraft = Omit<GlossaryRule, 'id' | 'enabled'>;
+
+const emptyDraft: RuleDraft = {
+  fromLang: ANY_LANGUAGE,
+  toLang: ANY_LANGUAGE,
+  term: '',
+  translation: '',
+  caseSensitive: false,
+  wholeWord: true
+};
+
+const inputClassName = 'px-3 py-2 bg-gray-800/50 text-white text-sm rounded-lg border border-gray-600/30 focus:outline-none focus:border-orange-400/50';
+
+const LanguageOptions: React.FC = () => (
+  <>
+    <option value={ANY_LANGUAGE}>Любой язык</option>
+    {targetLanguages.map(lang => (
+      <option key={lang.code} value={lang.code}>{lang.name}</option>
+    ))}
+  </>
+);
+
+const formatLanguage = (code: string) => (code === ANY_LANGUAGE ? 'Любой' : code.toUpperCase());
+
+export const GlossaryPanel: React.FC = () => {
+  const { rules, addRule, updateRule, removeRule } = useGlossary();
+  const [draft, setDraft] = useState<RuleDraft>(emptyDraft);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.term.trim()) {
+      return;
+    }
+
+    addRule({ ...draft, term: draft.term.trim(), translation: draft.translation.trim() });
+    setDraft(prev => ({ ...emptyDraft, fromLang: prev.fromLang, toLang: prev.toLang }));
+  };
+
+  return (
+    <div className="glass-border rounded-lg p-6 mb-8">
+      <h3 className="text-xl font-semibold text-white mb-2 flex items-center gap-2">
+        <BookOpen className="w-5 h-5 text-orange-400" />
+        Глоссарий
+      </h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Термины глоссария не отправляются провайдерам: они либо остаются без перевода, либо заменяются заданным вариантом.
+      </p>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-6 gap-3 mb-4">
+        <input
+          type="text"
+          value={draft.term}
+          onChange={(e) => setDraft(prev => ({ ...prev, term: e.target.value }))}
+          placeholder="Термин"
+          className={`md:col-span-2 ${inputClassName}`}
+        />
+        <input
+          type="text"
+          value={draft.translation}
+          onChange={(e) => setDraft(prev => ({ ...prev, translation: e.target.value }))}
+          placeholder="Перевод (пусто — не переводить)"
+          className={`md:col-span-2 ${inputClassName}`}
+        />
+        <select
+          value={draft.fromLang}
+          onChange={(e) => setDraft(prev => ({ ...prev, fromLang: e.target.value }))}
+          className={inputClassName}
+          title="Исходный язык"
+        >
+          <LanguageOptions />
+        </select>
+        <select
+          value={draft.toLang}
+          onChange={(e) => setDraft(prev => ({ ...prev, toLang: e.target.value }))}
+          className={inputClassName}
+          title="Язык перевода"
+        >
+          <LanguageOptions />
+        </select>
+        <div className="md:col-span-6 flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.caseSensitive}
+              onChange={(e) => setDraft(prev => ({ ...prev, caseSensitive: e.target.checked }))}
+              className="accent-orange-500"
+            />
+            Учитывать регистр
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.wholeWord}
+              onChange={(e) => setDraft(prev => ({ ...prev, wholeWord: e.target.checked }))}
+              className="accent-orange-500"
+            />
+            Только целое слово
+          </label>
+          <button
+            type="submit"
+            disabled={!draft.term.trim()}
+            className="ml-auto inline-flex items-center px-4 py-2 bg-gradient-to-r from-orange-400 to-orange-600 text-white text-sm rounded-lg hover:from-orange-500 hover:to-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Добавить
+          </button>
+        </div>
+      </form>
+
+      <div className="space-y-2 max-h-72 overflow-y-auto custom-scrollbar">
+        {rules.length === 0 && (
+          <p className="text-center text-gray-400 py-4">Правил пока нет</p>
+        )}
+
+        {rules.map(rule => (
+          <div
+            key={rule.id}
+            className={`glass-border rounded-lg px-4 py-3 flex flex-wrap items-center gap-3 ${rule.enabled ? '' : 'opacity-50'}`}
+          >
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+              className="accent-orange-500"
+              title="Правило активно"
+            />
+            <span className="text-white font-medium">{rule.term}</span>
+            <span className="text-gray-500">→</span>
+            <span className={rule.translation ? 'text-orange-300' : 'text-gray-400 italic'}>
+              {rule.translation || 'без перевода'}
+            </span>
+            <span className="text-xs text-gray-400">
+              {formatLanguage(rule.fromLang)} → {formatLanguage(rule.toLang)}
+              {rule.caseSensitive && ' · Aa'}
+              {rule.wholeWord && ' · слово'}
+            </span>
+            <button
+              onClick={() => removeRule(rule.id)}
+              className="ml-auto text-gray-400 hover:text-red-400 transition-colors"
+              title="Удалить"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,270 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { Search, Pin, PinOff, Trash2, Upload, Image, Type, Download, FileUp } from 'lucide-react';
+import { HistoryService, HistoryFilters, TranslationHistory, emptyHistoryFilters } from '../services/historyService';
+import { HistoryExchange, ExchangeFormat } from '../services/historyExchange';
+
+interface HistoryPanelProps {
+  history: TranslationHistory[];
+  onLoad: (entry: TranslationHistory) => void;
+  onCopy: (text: string) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onExport: (entries: TranslationHistory[], format: ExchangeFormat) => void;
+  onImport: (file: File) => void;
+}
+
+const inputClassName = 'px-3 py-2 bg-gray-800/50 text-white text-sm rounded-lg border border-gray-600/30 focus:outline-none focus:border-orange-400/50';
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  history,
+  onLoad,
+  onCopy,
+  onTogglePin,
+  onDelete,
+  onClear,
+  onExport,
+  onImport
+}) => {
+  const [filters, setFilters] = useState<HistoryFilters>(emptyHistoryFilters);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const languagePairs = useMemo(
+    () => [...new Set(history.map(entry => HistoryService.getLanguagePair(entry)))].sort(),
+    [history]
+  );
+
+  const filteredHistory = useMemo(
+    () => HistoryService.filter(history, filters),
+    [history, filters]
+  );
+
+  const updateFilters = (changes: Partial<HistoryFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(emptyHistoryFilters);
+
+  // Выбор сохраняем только для записей, которые еще есть в истории
+  const selectedEntries = history.filter(entry => selectedIds.has(entry.id));
+  const allFilteredSelected = filteredHistory.length > 0 && filteredHistory.every(entry => selectedIds.has(entry.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allFilteredSelected ? new Set() : new Set(filteredHistory.map(entry => entry.id)));
+  };
+
+  // Без выбранных записей экспортируется вся отфильтрованная история
+  const handleExport = (format: ExchangeFormat) => {
+    onExport(selectedEntries.length > 0 ? selectedEntries : filteredHistory, format);
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImport(file);
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="glass-border rounded-lg p-6">
+      <h3 className="text-xl font-semibold text-white mb-4">История переводов</h3>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-4">
+        <div className="relative md:col-span-2">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={filters.query}
+            onChange={(e) => updateFilters({ query: e.target.value })}
+            placeholder="Поиск по тексту и переводу..."
+            className={`w-full pl-10 ${inputClassName}`}
+          />
+        </div>
+        <select
+          value={filters.languagePair}
+          onChange={(e) => updateFilters({ languagePair: e.target.value })}
+          className={inputClassName}
+        >
+          <option value="all">Все языковые пары</option>
+          {languagePairs.map(pair => (
+            <option key={pair} value={pair}>
+              {pair.toUpperCase().replace('-', ' → ')}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.sourceType}
+          onChange={(e) => updateFilters({ sourceType: e.target.value as HistoryFilters['sourceType'] })}
+          className={inputClassName}
+        >
+          <option value="all">Текст и изображения</option>
+          <option value="text">Только текст</option>
+          <option value="image">Только изображения</option>
+        </select>
+        <div className="flex gap-2">
+          <input
+            type="date"
+            value={filters.dateFrom}
+            onChange={(e) => updateFilters({ dateFrom: e.target.value })}
+            className={`w-1/2 ${inputClassName}`}
+            title="С даты"
+          />
+          <input
+            type="date"
+            value={filters.dateTo}
+            onChange={(e) => updateFilters({ dateTo: e.target.value })}
+            className={`w-1/2 ${inputClassName}`}
+            title="По дату"
+          />
+        </div>
+      </div>
+
+      {/* Export / Import */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <span className="text-sm text-gray-400 mr-1">
+          <Download className="w-4 h-4 inline mr-1" />
+          Экспорт {selectedEntries.length > 0 ? `выбранных (${selectedEntries.length})` : 'всех'}:
+        </span>
+        {HistoryExchange.formats.map(format => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={filteredHistory.length === 0 && selectedEntries.length === 0}
+            className="px-3 py-1 text-xs uppercase glass-border text-orange-400 rounded-lg hover:bg-orange-400 hover:bg-opacity-20 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            {format}
+          </button>
+        ))}
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="ml-auto inline-flex items-center px-3 py-1 text-xs glass-border text-gray-300 rounded-lg hover:bg-gray-700 hover:bg-opacity-50 transition-all"
+        >
+          <FileUp className="w-3 h-3 mr-1" />
+          Импорт JSON / CSV / TMX
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,.csv,.tmx"
+          onChange={handleImportChange}
+          className="hidden"
+        />
+      </div>
+
+      <div className="flex justify-between items-center mb-4">
+        <span className="text-sm text-gray-400">
+          <input
+            type="checkbox"
+            checked={allFilteredSelected}
+            onChange={toggleSelectAll}
+            className="accent-orange-500 mr-2 align-middle"
+            title="Выбрать все"
+          />
+          {hasFilters
+            ? `Найдено: ${filteredHistory.length} из ${history.length}`
+            : `Всего переводов: ${history.length}`}
+          {hasFilters && (
+            <button
+              onClick={() => setFilters(emptyHistoryFilters)}
+              className="ml-3 text-orange-400 hover:text-orange-300 transition-colors"
+            >
+              Сбросить фильтры
+            </button>
+          )}
+        </span>
+        <button
+          onClick={onClear}
+          className="text-sm text-red-400 hover:text-red-300 transition-colors"
+          title="Закрепленные записи сохранятся"
+        >
+          Очистить историю
+        </button>
+      </div>
+
+      <div className="space-y-4 max-h-96 overflow-y-auto custom-scrollbar">
+        {filteredHistory.length === 0 && (
+          <p className="text-center text-gray-400 py-8">
+            {history.length === 0 ? 'История пока пуста' : 'Ничего не найдено'}
+          </p>
+        )}
+
+        {filteredHistory.map((item) => (
+          <div
+            key={item.id}
+            className={`glass-border rounded-lg p-4 hover-glow ${item.pinned ? 'border-l-2 border-orange-500' : ''}`}
+          >
+            <div className="flex justify-between items-start mb-2">
+              <span className="flex items-center gap-2 text-sm text-orange-400">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(item.id)}
+                  onChange={() => toggleSelected(item.id)}
+                  className="accent-orange-500"
+                />
+                {item.sourceType === 'image'
+                  ? <Image className="w-4 h-4" />
+                  : <Type className="w-4 h-4" />}
+                {item.fromLanguage.toUpperCase()} → {item.toLanguage.toUpperCase()}
+              </span>
+              <div className="flex items-center gap-3">
+                <span className="text-xs text-gray-400">
+                  {item.timestamp.toLocaleString()}
+                </span>
+                <button
+                  onClick={() => onTogglePin(item.id)}
+                  className="text-gray-400 hover:text-orange-400 transition-colors"
+                  title={item.pinned ? 'Открепить' : 'Закрепить'}
+                >
+                  {item.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => onDelete(item.id)}
+                  className="text-gray-400 hover:text-red-400 transition-colors"
+                  title="Удалить"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            <div className="text-sm text-gray-300 mb-1">
+              <strong>Исходный:</strong> {item.sourceText}
+            </div>
+            <div className="text-sm text-white">
+              <strong>Перевод:</strong> {item.translatedText}
+            </div>
+            <div className="flex gap-4 mt-2">
+              <button
+                onClick={() => onLoad(item)}
+                className="inline-flex items-center text-xs text-orange-400 hover:text-orange-300 transition-colors"
+              >
+                <Upload className="w-3 h-3 mr-1" />
+                Открыть в редакторе
+              </button>
+              <button
+                onClick={() => onCopy(item.translatedText)}
+                className="text-xs text-orange-400 hover:text-orange-300 transition-colors"
+              >
+                Копировать перевод
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
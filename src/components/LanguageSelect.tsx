@@ -1,24 +1,29 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ChevronDown, Search, Globe } from 'lucide-react';
-
-interface Language {
-  code: string;
-  name: string;
-  flag: string;
-}
+import { ChevronDown, Search, Globe, AlertTriangle } from 'lucide-react';
+import { LanguageDetection } from '../services/translationService';
+import { LanguageIdentifier } from '../services/languageIdentifier';
+import { LanguageOption, getLanguageName } from '../data/languages';
 
 interface LanguageSelectProps {
   value: string;
   onChange: (value: string) => void;
-  languages: Language[];
+  languages: LanguageOption[];
   label: string;
+  // Результат автоопределения: показывается, пока выбран вариант «auto»
+  detection?: LanguageDetection | null;
+  // Выбор другого языка из кандидатов вместо определенного
+  onOverride?: (value: string) => void;
 }
 
+const formatConfidence = (confidence: number): string => `${Math.round(confidence * 100)}%`;
+
 export const LanguageSelect: React.FC<LanguageSelectProps> = ({
   value,
   onChange,
   languages,
-  label
+  label,
+  detection,
+  onOverride
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
@@ -26,10 +31,20 @@ export const LanguageSelect: React.FC<LanguageSelectProps> = ({
   const searchInputRef = useRef<HTMLInputElement>(null);
 
   const selectedLanguage = languages.find(lang => lang.code === value);
+
+  const showDetection = value === 'auto' && detection;
+  // Альтернативы — другие вероятные языки из списка, с ненулевой уверенностью
+  const alternatives = detection?.candidates.filter(candidate =>
+    candidate.language !== detection.language &&
+    Math.round(candidate.confidence * 100) > 0 &&
+    languages.some(lang => lang.code === candidate.language)
+  ) ?? [];
+  // Уверенность неизвестна, если язык назвал провайдер: такое определение не считаем сомнительным
+  const lowConfidence = (detection?.confidence ?? 1) < LanguageIdentifier.LOW_CONFIDENCE;
   
+  // Искать можно по русскому названию, самоназванию и коду
   const filteredLanguages = languages.filter(lang =>
-    lang.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    lang.code.toLowerCase().includes(searchTerm.toLowerCase())
+    [lang.name, lang.nativeName, lang.code].some(field => field.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
   useEffect(() => {
@@ -79,11 +94,45 @@ export const LanguageSelect: React.FC<LanguageSelectProps> = ({
           </div>
           <div className="text-xs text-gray-400 uppercase tracking-wider">
             {selectedLanguage?.code}
+            {selectedLanguage?.nativeName && selectedLanguage.nativeName !== selectedLanguage.name && (
+              <span className="ml-2 normal-case tracking-normal">{selectedLanguage.nativeName}</span>
+            )}
           </div>
         </div>
         <ChevronDown className={`w-5 h-5 text-gray-400 transition-all duration-300 group-hover:text-orange-400 ${isOpen ? 'rotate-180' : ''}`} />
       </button>
 
+      {/* Detected Language */}
+      {showDetection && (
+        <div className="mt-2 space-y-1 text-xs">
+          <div className="flex flex-wrap items-center gap-2 text-gray-400">
+            <span>
+              Определен: <span className="text-white">{getLanguageName(detection.language)}</span>
+              {detection.confidence !== null && ` (${formatConfidence(detection.confidence)})`}
+            </span>
+            {onOverride && alternatives.map(candidate => (
+              <button
+                key={candidate.language}
+                type="button"
+                onClick={() => onOverride(candidate.language)}
+                title="Перевести заново с этого языка"
+                className="px-2 py-0.5 glass-border rounded text-orange-400 hover:bg-orange-400 hover:bg-opacity-20 transition-all"
+              >
+                {getLanguageName(candidate.language)} {formatConfidence(candidate.confidence)}
+              </button>
+            ))}
+          </div>
+          {(detection.mixed || lowConfidence) && (
+            <div className="flex items-center gap-1 text-yellow-400">
+              <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+              {detection.mixed
+                ? 'В тексте несколько языков — лучше выбрать исходный язык вручную'
+                : 'Язык определен неуверенно — проверьте его или выберите вручную'}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Dropdown */}
       {isOpen && (
         <div className="absolute top-full left-0 right-0 mt-3 z-50 animate-slide-down">
@@ -121,6 +170,9 @@ export const LanguageSelect: React.FC<LanguageSelectProps> = ({
                       </div>
                       <div className="text-xs text-gray-500 uppercase tracking-wider">
                         {lang.code}
+                        {lang.nativeName && lang.nativeName !== lang.name && (
+                          <span className="ml-2 normal-case tracking-normal">{lang.nativeName}</span>
+                        )}
                       </div>
                     </div>
                     {value === lang.code && (
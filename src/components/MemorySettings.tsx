@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { Brain } from 'lucide-react';
+import { TranslationMemory, MemorySettings as MemorySettingsData } from '../services/translationMemory';
+
+// Настройки личной памяти переводов: похожие сегменты из истории и исправлений переводятся без запросов
+export const MemorySettings: React.FC = () => {
+  const [settings, setSettings] = useState<MemorySettingsData>(() => TranslationMemory.getSettings());
+
+  const handleChange = (changes: Partial<MemorySettingsData>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+    TranslationMemory.configure(changes);
+  };
+
+  return (
+    <div className="glass-border rounded-lg p-4 mt-6">
+      <label className="flex items-center gap-2 cursor-pointer mb-4">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => handleChange({ enabled: e.target.checked })}
+          className="accent-orange-500"
+        />
+        <Brain className="w-4 h-4 text-orange-400" />
+        <span className="font-medium text-white">Память переводов</span>
+      </label>
+
+      <label className="block text-xs text-gray-400">
+        Минимальное совпадение: <span className="text-white">{settings.threshold}%</span>
+        <input
+          type="range"
+          min={50}
+          max={100}
+          step={1}
+          value={settings.threshold}
+          disabled={!settings.enabled}
+          onChange={(e) => handleChange({ threshold: Number(e.target.value) })}
+          className="mt-2 w-full accent-orange-500"
+        />
+      </label>
+      <p className="mt-2 text-xs text-gray-500">
+        Сегменты, похожие на переведенные раньше или исправленные вами, берутся из памяти без обращения к провайдерам.
+      </p>
+    </div>
+  );
+};
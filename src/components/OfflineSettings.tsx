@@ -0,0 +1,42 @@
+import React from 'react';
+import { WifiOff } from 'lucide-react';
+import { useOfflineMode } from '../hooks/useOfflineMode';
+
+// Настройки офлайн-режима: принудительная работа без сети и адрес локального сервера перевода
+export const OfflineSettings: React.FC = () => {
+  const { offline, settings, configure } = useOfflineMode();
+
+  return (
+    <div className="glass-border rounded-lg p-4 mt-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.forceOffline}
+            onChange={(e) => configure({ forceOffline: e.target.checked })}
+            className="accent-orange-500"
+          />
+          <WifiOff className="w-4 h-4 text-orange-400" />
+          <span className="font-medium text-white">Работать без сети</span>
+        </label>
+        <span className={`text-xs ${offline ? 'text-yellow-400' : 'text-green-400'}`}>
+          {offline ? 'Сейчас перевод выполняется офлайн' : 'Провайдеры доступны'}
+        </span>
+      </div>
+
+      <label className="block text-xs text-gray-400">
+        Локальный сервер перевода (API LibreTranslate)
+        <input
+          type="url"
+          value={settings.localEndpoint}
+          onChange={(e) => configure({ localEndpoint: e.target.value.trim() })}
+          placeholder="http://localhost:5000/translate"
+          className="mt-1 w-full px-3 py-2 bg-gray-800/50 text-white text-sm rounded-lg border border-gray-600/30 focus:outline-none focus:border-orange-400/50"
+        />
+      </label>
+      <p className="mt-2 text-xs text-gray-500">
+        Без сети текст переводит локальный сервер, а если его нет — встроенные таблицы фраз для выбранной пары языков.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { ChevronUp, ChevronDown, Activity, RotateCcw } from 'lucide-react';
+import { useProviderSettings } from '../hooks/useProviderSettings';
+import { ProviderHealth } from '../services/providerRegistry';
+import { NotificationData } from './Notification';
+import { CacheSettings } from './CacheSettings';
+import { MemorySettings } from './MemorySettings';
+import { OfflineSettings } from './OfflineSettings';
+
+interface SettingsPanelProps {
+  onNotify: (type: NotificationData['type'], title: string, message: string) => void;
+}
+
+const healthLabels: Record<ProviderHealth['status'], string> = {
+  unknown: 'Не проверен',
+  healthy: 'Работает',
+  failing: 'Недоступен'
+};
+
+const healthColors: Record<ProviderHealth['status'], string> = {
+  unknown: 'bg-gray-500',
+  healthy: 'bg-green-400',
+  failing: 'bg-red-400'
+};
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onNotify }) => {
+  const {
+    providers,
+    testing,
+    updateConfig,
+    toggleProvider,
+    moveProvider,
+    resetProvider,
+    testProvider
+  } = useProviderSettings();
+  // Таймаут, который пользователь еще печатает; ограничение применяется при потере фокуса
+  const [timeoutDrafts, setTimeoutDrafts] = useState<Record<string, string>>({});
+
+  const handleTimeoutBlur = (id: string) => {
+    const draft = timeoutDrafts[id];
+    if (draft === undefined) return;
+    updateConfig(id, { timeout: Math.max(1000, Number(draft) || 0) });
+    setTimeoutDrafts(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const handleTest = async (id: string, name: string) => {
+    const health = await testProvider(id);
+    if (health.status === 'healthy') {
+      onNotify('success', name, `Соединение установлено за ${Math.round(health.latency ?? 0)} мс`);
+    } else {
+      onNotify('error', name, `Проверка не пройдена: ${health.error ?? 'неизвестная ошибка'}`);
+    }
+  };
+
+  return (
+    <div className="glass-border rounded-lg p-6 mb-8">
+      <h3 className="text-xl font-semibold text-white mb-2">Провайдеры перевода</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Провайдеры опрашиваются сверху вниз, пока один из них не вернет перевод. Настройки сохраняются в браузере.
+      </p>
+
+      <div className="space-y-4">
+        {providers.map(({ provider, config, enabled, health }, index) => (
+          <div
+            key={provider.id}
+            className={`glass-border rounded-lg p-4 transition-all ${enabled ? 'hover-glow' : 'opacity-60'}`}
+          >
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <div className="flex items-center gap-3">
+                <div className="flex flex-col">
+                  <button
+                    onClick={() => moveProvider(provider.id, -1)}
+                    disabled={index === 0}
+                    className="text-gray-400 hover:text-orange-400 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                    title="Выше"
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveProvider(provider.id, 1)}
+                    disabled={index === providers.length - 1}
+                    className="text-gray-400 hover:text-orange-400 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                    title="Ниже"
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                </div>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={(e) => toggleProvider(provider.id, e.target.checked)}
+                    className="accent-orange-500"
+                  />
+                  <span className="font-medium text-white">{provider.name}</span>
+                </label>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <span
+                  className="flex items-center gap-2 text-xs text-gray-400"
+                  title={health.error ?? (health.checkedAt ? `Проверено: ${health.checkedAt.toLocaleTimeString()}` : undefined)}
+                >
+                  <span className={`w-2 h-2 rounded-full ${healthColors[health.status]}`}></span>
+                  {healthLabels[health.status]}
+                  {health.status === 'healthy' && health.latency !== undefined && ` · ${Math.round(health.latency)} мс`}
+                </span>
+                <button
+                  onClick={() => handleTest(provider.id, provider.name)}
+                  disabled={testing === provider.id}
+                  className="inline-flex items-center px-3 py-1 text-xs glass-border text-orange-400 rounded-lg hover:bg-orange-400 hover:bg-opacity-20 disabled:opacity-50 transition-all"
+                >
+                  <Activity className="w-3 h-3 mr-1" />
+                  {testing === provider.id ? 'Проверяем...' : 'Проверить'}
+                </button>
+                <button
+                  onClick={() => resetProvider(provider.id)}
+                  className="text-gray-400 hover:text-orange-400 transition-colors"
+                  title="Сбросить настройки"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+              <label className="md:col-span-2 text-xs text-gray-400">
+                Адрес API
+                <input
+                  type="url"
+                  value={config.endpoint}
+                  onChange={(e) => updateConfig(provider.id, { endpoint: e.target.value })}
+                  className="mt-1 w-full px-3 py-2 bg-gray-800/50 text-white text-sm rounded-lg border border-gray-600/30 focus:outline-none focus:border-orange-400/50"
+                />
+              </label>
+              <label className="text-xs text-gray-400">
+                API-ключ
+                <input
+                  type="password"
+                  value={config.apiKey}
+                  onChange={(e) => updateConfig(provider.id, { apiKey: e.target.value })}
+                  placeholder="Не требуется"
+                  className="mt-1 w-full px-3 py-2 bg-gray-800/50 text-white text-sm rounded-lg border border-gray-600/30 focus:outline-none focus:border-orange-400/50"
+                />
+              </label>
+              <label className="text-xs text-gray-400">
+                Таймаут, мс
+                <input
+                  type="number"
+                  min={1000}
+                  step={1000}
+                  value={timeoutDrafts[provider.id] ?? config.timeout}
+                  onChange={(e) => setTimeoutDrafts(prev => ({ ...prev, [provider.id]: e.target.value }))}
+                  onBlur={() => handleTimeoutBlur(provider.id)}
+                  className="mt-1 w-full px-3 py-2 bg-gray-800/50 text-white text-sm rounded-lg border border-gray-600/30 focus:outline-none focus:border-orange-400/50"
+                />
+              </label>
+              <label className="text-xs text-gray-400">
+                Запросов в минуту
+                <input
+                  type="number"
+                  min={0}
+                  step={10}
+                  value={config.rateLimit}
+                  onChange={(e) => updateConfig(provider.id, { rateLimit: Math.max(0, Number(e.target.value) || 0) })}
+                  title="0 — без ограничения"
+                  className="mt-1 w-full px-3 py-2 bg-gray-800/50 text-white text-sm rounded-lg border border-gray-600/30 focus:outline-none focus:border-orange-400/50"
+                />
+              </label>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <CacheSettings onNotify={onNotify} />
+      <MemorySettings />
+      <OfflineSettings />
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 import React from 'react';
+import { TextDirection } from '../data/languages';
 
 interface TextAreaProps {
   value: string;
@@ -7,6 +8,10 @@ interface TextAreaProps {
   label: string;
   readonly?: boolean;
   loading?: boolean;
+  // Пока перевод идет частями, вместо заглушки показываем готовый текст и полосу прогресса
+  progress?: { done: number; total: number } | null;
+  // Направление письма: арабский текст набирается справа налево
+  dir?: TextDirection | 'auto';
 }
 
 export const TextArea: React.FC<TextAreaProps> = ({
@@ -15,28 +20,48 @@ export const TextArea: React.FC<TextAreaProps> = ({
   placeholder,
   label,
   readonly = false,
-  loading = false
+  loading = false,
+  progress = null,
+  dir = 'auto'
 }) => {
+  const showProgress = loading && progress !== null && progress.total > 1;
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
   return (
     <div className="relative">
       <label className="block text-sm font-medium text-gray-300 mb-2">
         {label}
       </label>
-      <div className={`relative ${loading ? 'shimmer' : ''}`}>
+      <div className={`relative ${loading && !showProgress ? 'shimmer' : ''}`}>
         <textarea
           value={value}
           onChange={(e) => onChange(e.target.value)}
           placeholder={placeholder}
           readOnly={readonly}
+          dir={dir}
           className="w-full h-40 glass-border rounded-lg p-4 text-white focus-orange border-0 resize-none hover-glow transition-all"
           style={{ minHeight: '160px' }}
         />
-        {loading && (
+        {loading && !showProgress && (
           <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 rounded-lg">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-400"></div>
           </div>
         )}
       </div>
+      {showProgress && progress && (
+        <div className="mt-2">
+          <div className="flex justify-between text-xs text-gray-400 mb-1">
+            <span>Фрагментов переведено: {progress.done} из {progress.total}</span>
+            <span>{percent}%</span>
+          </div>
+          <div className="h-1.5 bg-gray-700/50 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-orange-400 to-orange-600 transition-all duration-300"
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
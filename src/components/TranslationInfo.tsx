@@ -0,0 +1,145 @@
+import React from 'react';
+import { Cpu, AlertTriangle, Clock, Database, BookOpen, Brain, WifiOff, Languages } from 'lucide-react';
+import { TranslationResult, ChunkResult } from '../services/translationService';
+import { ProviderRegistry } from '../services/providerRegistry';
+import { TranslationCache } from '../services/translationCache';
+import { TranslationMemory } from '../services/translationMemory';
+import { getLanguageName } from '../data/languages';
+
+interface TranslationInfoProps {
+  result: TranslationResult;
+}
+
+const getEngineLabel = (chunk: ChunkResult): string => {
+  if (chunk.provider === TranslationCache.USER_PROVIDER) {
+    return 'Ваши исправления';
+  }
+  if (chunk.provider === TranslationMemory.PROVIDER) {
+    return 'Память переводов';
+  }
+  if (chunk.provider) {
+    return ProviderRegistry.get(chunk.provider)?.provider.name ?? chunk.provider;
+  }
+  if (chunk.fallback === 'offline') {
+    return 'Офлайн-движок';
+  }
+  if (chunk.fallback === 'partial') {
+    return 'Офлайн-движок (частично)';
+  }
+  return chunk.fallback === 'dictionary' ? 'Встроенный словарь' : 'Без перевода';
+};
+
+export const TranslationInfo: React.FC<TranslationInfoProps> = ({ result }) => {
+  // Фрагменты из одной разметки или терминов глоссария провайдерам не отправлялись
+  const translatableChunks = result.chunks.filter(chunk => chunk.provider || chunk.fallback);
+
+  // Сколько фрагментов обработал каждый движок
+  const engines = new Map<string, number>();
+  translatableChunks.forEach(chunk => {
+    const label = getEngineLabel(chunk);
+    engines.set(label, (engines.get(label) ?? 0) + 1);
+  });
+
+  const dictionaryChunks = translatableChunks.filter(chunk => chunk.fallback === 'dictionary').length;
+  const offlineChunks = translatableChunks.filter(chunk => chunk.fallback === 'offline' || chunk.fallback === 'partial').length;
+  // В смешанном тексте сегменты переводились с разных языков, а часть могла уже быть на целевом
+  const sourceLanguages = new Map<string, number>();
+  result.chunks.filter(chunk => /\p{L}/u.test(chunk.source)).forEach(chunk => {
+    sourceLanguages.set(chunk.sourceLanguage, (sourceLanguages.get(chunk.sourceLanguage) ?? 0) + 1);
+  });
+  const untouchedChunks = sourceLanguages.get(result.targetLanguage) ?? 0;
+  const memoryScores = translatableChunks
+    .map(chunk => chunk.memoryScore)
+    .filter((score): score is number => score !== null);
+
+  return (
+    <div className="glass-border rounded-lg p-4 text-sm space-y-2">
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-gray-400">
+        <span className="flex items-center gap-2">
+          <Cpu className="w-4 h-4 text-orange-400" />
+          {engines.size > 0
+            ? [...engines.entries()]
+                .map(([label, count]) => (engines.size > 1 ? `${label} (${count})` : label))
+                .join(', ')
+            : 'Перевод не требовался'}
+        </span>
+        {result.detection && (
+          <span>Определен язык: <span className="text-white">{getLanguageName(result.detection.language)}</span></span>
+        )}
+        {result.fromCache && (
+          <span className="flex items-center gap-2">
+            <Database className="w-4 h-4" />
+            Из кэша
+          </span>
+        )}
+        <span className="flex items-center gap-2">
+          <Clock className="w-4 h-4" />
+          {Math.round(result.duration)} мс
+        </span>
+      </div>
+
+      {result.glossaryHits.length > 0 && (
+        <div className="flex items-start gap-2 text-gray-300">
+          <BookOpen className="w-4 h-4 flex-shrink-0 mt-0.5 text-orange-400" />
+          <span>
+            Сработали правила глоссария:{' '}
+            {result.glossaryHits
+              .map(hit => `${hit.term} → ${hit.replacement}${hit.count > 1 ? ` (×${hit.count})` : ''}`)
+              .join(', ')}
+          </span>
+        </div>
+      )}
+
+      {sourceLanguages.size > 1 && (
+        <div className="flex items-start gap-2 text-gray-300">
+          <Languages className="w-4 h-4 flex-shrink-0 mt-0.5 text-orange-400" />
+          <span>
+            Текст на нескольких языках:{' '}
+            {[...sourceLanguages.entries()]
+              .map(([code, count]) => `${getLanguageName(code)} (${count})`)
+              .join(', ')}
+            {untouchedChunks > 0 && `. Фрагменты на языке перевода оставлены без изменений: ${untouchedChunks}`}
+          </span>
+        </div>
+      )}
+
+      {memoryScores.length > 0 && (
+        <div className="flex items-start gap-2 text-gray-300">
+          <Brain className="w-4 h-4 flex-shrink-0 mt-0.5 text-orange-400" />
+          <span>
+            Из памяти переводов: {memoryScores.length}{' '}
+            (совпадение {memoryScores.map(score => `${score}%`).join(', ')})
+          </span>
+        </div>
+      )}
+
+      {result.untranslatedChunks > 0 && (
+        <div className="flex items-start gap-2 text-yellow-400">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>
+            Не удалось перевести фрагментов: {result.untranslatedChunks} из {translatableChunks.length}.
+            Все провайдеры недоступны, в результате целиком или частично оставлен исходный текст.
+          </span>
+        </div>
+      )}
+
+      {offlineChunks > 0 && (
+        <div className="flex items-start gap-2 text-yellow-300/80">
+          <WifiOff className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>
+            Фрагментов переведено офлайн: {offlineChunks}. При появлении сети они будут переведены заново.
+          </span>
+        </div>
+      )}
+
+      {dictionaryChunks > 0 && (
+        <div className="flex items-start gap-2 text-yellow-300/80">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>
+            Фрагментов переведено по встроенному словарю: {dictionaryChunks}. Качество может быть низким.
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
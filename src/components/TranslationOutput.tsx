@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Loader2, Sparkles } from 'lucide-react';
+import { TranslationResult, TranslationVariant } from '../services/translationService';
+import { ProviderRegistry } from '../services/providerRegistry';
+import { TranslationCache } from '../services/translationCache';
+import { TranslationMemory } from '../services/translationMemory';
+import { getTextDirection } from '../data/languages';
+
+interface TranslationOutputProps {
+  result: TranslationResult;
+  label: string;
+  onChooseVariant: (chunkIndex: number, variant: TranslationVariant) => Promise<void>;
+  onRequestVariants: (chunkIndex: number) => Promise<void>;
+}
+
+const getProviderName = (id: string): string => {
+  if (id === TranslationCache.USER_PROVIDER) return 'Ваш вариант';
+  if (id === TranslationMemory.PROVIDER) return 'Память переводов';
+  return ProviderRegistry.get(id)?.provider.name ?? id;
+};
+
+// Перевод, разбитый на фрагменты: по щелчку на предложении можно выбрать другой вариант
+export const TranslationOutput: React.FC<TranslationOutputProps> = ({
+  result,
+  label,
+  onChooseVariant,
+  onRequestVariants
+}) => {
+  const [selected, setSelected] = useState<number | null>(null);
+  const [requesting, setRequesting] = useState(false);
+  const selectedChunk = selected !== null ? result.chunks[selected] : null;
+
+  // Новый перевод — новые фрагменты; выбор варианта разделители не меняет
+  useEffect(() => {
+    setSelected(null);
+  }, [result.separators]);
+
+  const handleRequestVariants = async () => {
+    if (selected === null) return;
+    setRequesting(true);
+    try {
+      await onRequestVariants(selected);
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <label className="block text-sm font-medium text-gray-300 mb-2">
+        {label}
+      </label>
+      <div
+        dir={getTextDirection(result.targetLanguage)}
+        className="w-full h-40 glass-border rounded-lg p-4 text-white overflow-auto whitespace-pre-wrap hover-glow transition-all"
+        style={{ minHeight: '160px' }}
+      >
+        {result.chunks.map((chunk, index) => (
+          <React.Fragment key={index}>
+            {result.separators[index]}
+            {chunk.provider ? (
+              <span
+                onClick={() => setSelected(selected === index ? null : index)}
+                className={`cursor-pointer rounded transition-colors ${
+                  selected === index ? 'bg-orange-400/30' : 'hover:bg-orange-400/10'
+                } ${chunk.memoryScore !== null ? 'underline decoration-dotted decoration-orange-400' : ''}`}
+                title={chunk.memoryScore !== null
+                  ? `Из памяти переводов, совпадение ${chunk.memoryScore}%`
+                  : 'Выбрать другой вариант перевода'}
+              >
+                {chunk.translation}
+              </span>
+            ) : (
+              chunk.translation
+            )}
+          </React.Fragment>
+        ))}
+        {result.separators[result.chunks.length]}
+      </div>
+
+      {selectedChunk && selected !== null && (
+        <div className="mt-2 glass-border rounded-lg p-3 text-sm space-y-1">
+          <div className="text-xs text-gray-400 mb-1 truncate" title={selectedChunk.source}>
+            Варианты для «{selectedChunk.source}»
+          </div>
+          {selectedChunk.variants.map((variant, index) => {
+            const isCurrent = variant.text === selectedChunk.translation;
+            return (
+              <button
+                key={index}
+                onClick={() => !isCurrent && onChooseVariant(selected, variant)}
+                className={`w-full flex items-start gap-2 text-left px-2 py-1 rounded transition-colors ${
+                  isCurrent ? 'text-orange-300' : 'text-gray-300 hover:bg-orange-400/10'
+                }`}
+              >
+                <Check className={`w-4 h-4 mt-0.5 shrink-0 ${isCurrent ? '' : 'invisible'}`} />
+                <span className="flex-1">{variant.text}</span>
+                <span className="text-xs text-gray-500 shrink-0">{getProviderName(variant.provider)}</span>
+              </button>
+            );
+          })}
+          <button
+            onClick={handleRequestVariants}
+            disabled={requesting}
+            className="flex items-center gap-2 px-2 py-1 text-xs text-orange-400 hover:text-orange-300 disabled:opacity-50 transition-colors"
+          >
+            {requesting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />}
+            Спросить другие сервисы
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Copy, Download } from 'lucide-react';
+import { TranslationResult } from '../services/translationService';
+import { getLanguageName } from '../data/languages';
+
+interface TranslationTabsProps {
+  results: TranslationResult[];
+  active: string;
+  onSelect: (targetLanguage: string) => void;
+  onCopy: (text: string) => void;
+  onExport: (result: TranslationResult) => void;
+}
+
+// Вкладки с переводами на несколько языков
+export const TranslationTabs: React.FC<TranslationTabsProps> = ({ results, active, onSelect, onCopy, onExport }) => {
+  const activeResult = results.find(result => result.targetLanguage === active);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-2">
+      {results.map(result => (
+        <button
+          key={result.targetLanguage}
+          onClick={() => onSelect(result.targetLanguage)}
+          className={`px-3 py-1 rounded-full text-xs transition-all ${
+            result.targetLanguage === active
+              ? 'bg-gradient-to-r from-orange-400 to-orange-600 text-white'
+              : 'glass-border text-gray-400 hover:text-white'
+          }`}
+        >
+          {getLanguageName(result.targetLanguage)}
+          {result.untranslatedChunks > 0 && ' ⚠'}
+        </button>
+      ))}
+      {activeResult && (
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={() => onCopy(activeResult.text)}
+            className="p-1 text-gray-400 hover:text-orange-400 transition-colors"
+            title="Копировать перевод"
+          >
+            <Copy className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onExport(activeResult)}
+            className="p-1 text-gray-400 hover:text-orange-400 transition-colors"
+            title="Скачать перевод"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
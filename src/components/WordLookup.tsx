@@ -0,0 +1,109 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { DictionaryService, DictionaryLookup } from '../services/dictionaryService';
+
+interface WordLookupProps {
+  // Язык текста внутри обертки и язык, на который показываются переводы слова
+  fromLang: string;
+  toLang: string;
+  children: React.ReactNode;
+}
+
+interface LookupState {
+  word: string;
+  x: number;
+  y: number;
+  // undefined — статья еще ищется, null — слова нет в установленных словарях
+  entry?: DictionaryLookup | null;
+}
+
+const WORD_PATTERN = /^\p{L}[\p{L}\p{M}'’-]*$/u;
+
+const getSelectedText = (target: EventTarget): string => {
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLInputElement) {
+    return target.value.slice(target.selectionStart ?? 0, target.selectionEnd ?? 0);
+  }
+  return window.getSelection()?.toString() ?? '';
+};
+
+// Словарная статья по двойному щелчку на слове внутри обертки
+export const WordLookup: React.FC<WordLookupProps> = ({ fromLang, toLang, children }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [lookup, setLookup] = useState<LookupState | null>(null);
+
+  // Щелчок вне подсказки и Escape закрывают ее
+  useEffect(() => {
+    if (!lookup) return;
+
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setLookup(null);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setLookup(null);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [lookup]);
+
+  const handleDoubleClick = async (event: React.MouseEvent) => {
+    const word = getSelectedText(event.target).trim();
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || !WORD_PATTERN.test(word)) return;
+
+    const position = { word, x: event.clientX - rect.left, y: event.clientY - rect.top + 12 };
+    if (fromLang === 'auto') {
+      setLookup({ ...position, entry: null });
+      return;
+    }
+
+    setLookup(position);
+    const entry = await DictionaryService.lookupWord(word, fromLang, toLang);
+    // За время поиска могли щелкнуть по другому слову
+    setLookup(current => (current?.word === word ? { ...current, entry } : current));
+  };
+
+  return (
+    <div ref={containerRef} className="relative" onDoubleClick={handleDoubleClick}>
+      {children}
+      {lookup && (
+        <div
+          className="absolute z-20 w-64 glass rounded-lg p-3 text-sm shadow-lg"
+          style={{ left: Math.max(0, lookup.x - 128), top: lookup.y }}
+        >
+          <div className="flex items-start justify-between gap-2 mb-1">
+            <span className="font-medium text-orange-300">
+              {lookup.word}
+              {lookup.entry && lookup.entry.lemma !== lookup.word.toLowerCase() && (
+                <span className="text-gray-400 font-normal"> ← {lookup.entry.lemma}</span>
+              )}
+            </span>
+            <button onClick={() => setLookup(null)} className="text-gray-400 hover:text-white transition-colors">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {lookup.entry === undefined && <p className="text-gray-400">Ищем в словаре...</p>}
+          {lookup.entry === null && (
+            <p className="text-gray-400">
+              {fromLang === 'auto'
+                ? 'Выберите исходный язык, чтобы искать слова в словаре'
+                : `Нет в установленных словарях (${fromLang.toUpperCase()} → ${toLang.toUpperCase()})`}
+            </p>
+          )}
+          {lookup.entry && (
+            <ol className="list-decimal list-inside text-white space-y-0.5">
+              {lookup.entry.translations.map(translation => (
+                <li key={translation}>{translation}</li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
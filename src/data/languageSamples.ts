@@ -0,0 +1,203 @@
+// Обучающие тексты для определения языка по символьным n-граммам, по одному на каждый язык из languages.ts:
+// первые статьи Всеобщей декларации прав человека и бытовые фразы.
+// Русский образец длиннее остальных: это основной язык ввода, и короткие бытовые фразы
+// не должны уходить к близким кириллическим языкам
+export const languageSamples: Record<string, string> = {
+  ru: `Все люди рождаются свободными и равными в своем достоинстве и правах. Они наделены разумом и совестью и должны поступать в отношении друг друга в духе братства.
+Каждый человек имеет право на жизнь, на свободу и на личную неприкосновенность. Никто не должен содержаться в рабстве или в подневольном состоянии.
+Здравствуйте, как у вас дела? Спасибо, все хорошо. Сегодня очень теплая погода, и мы решили пойти в парк после работы.
+Где находится ближайшая станция метро? Я не знаю, что он хотел сказать, но это было интересно. Мы будем рады видеть вас снова.
+Эта книга была написана много лет назад, однако ее до сих пор читают с большим удовольствием. Пожалуйста, позвоните мне завтра утром.
+Привет! Ты сейчас свободен? Давай встретимся вечером в центре, я расскажу, что случилось на работе. Мне кажется, нам нужно всё обсудить.
+Если будет время, зайди ко мне после обеда. Я купила продукты, осталось только приготовить ужин. Не забудь взять зарядку для телефона.
+Вчера мы весь день гуляли по городу, а потом смотрели фильм. Когда ты вернёшься домой? Напиши, пожалуйста, как только сможешь.`,
+
+  en: `All human beings are born free and equal in dignity and rights. They are endowed with reason and conscience and should act towards one another in a spirit of brotherhood.
+Everyone has the right to life, liberty and security of person. No one shall be held in slavery or servitude.
+Hello, how are you doing today? Thank you, I am fine. The weather is very warm, so we decided to go for a walk in the park after work.
+Where is the nearest train station? I do not know what he wanted to say, but it was interesting. We would be happy to see you again.
+This book was written many years ago, however people still read it with great pleasure. Please call me tomorrow morning if you have any questions.`,
+
+  es: `Todos los seres humanos nacen libres e iguales en dignidad y derechos y, dotados como están de razón y conciencia, deben comportarse fraternalmente los unos con los otros.
+Todo individuo tiene derecho a la vida, a la libertad y a la seguridad de su persona. Nadie estará sometido a esclavitud ni a servidumbre.
+Hola, ¿cómo estás hoy? Muy bien, gracias. Hace mucho calor, así que decidimos dar un paseo por el parque después del trabajo.
+¿Dónde está la estación de tren más cercana? No sé qué quería decir, pero fue muy interesante. Estaremos encantados de verte otra vez.
+Este libro fue escrito hace muchos años, sin embargo la gente todavía lo lee con gran placer. Por favor, llámame mañana por la mañana.`,
+
+  fr: `Tous les êtres humains naissent libres et égaux en dignité et en droits. Ils sont doués de raison et de conscience et doivent agir les uns envers les autres dans un esprit de fraternité.
+Tout individu a droit à la vie, à la liberté et à la sûreté de sa personne. Nul ne sera tenu en esclavage ni en servitude.
+Bonjour, comment allez-vous aujourd'hui ? Très bien, merci. Il fait très chaud, alors nous avons décidé de nous promener dans le parc après le travail.
+Où se trouve la gare la plus proche ? Je ne sais pas ce qu'il voulait dire, mais c'était intéressant. Nous serons heureux de vous revoir.
+Ce livre a été écrit il y a de nombreuses années, pourtant les gens le lisent encore avec beaucoup de plaisir. Appelez-moi demain matin, s'il vous plaît.`,
+
+  de: `Alle Menschen sind frei und gleich an Würde und Rechten geboren. Sie sind mit Vernunft und Gewissen begabt und sollen einander im Geist der Brüderlichkeit begegnen.
+Jeder hat das Recht auf Leben, Freiheit und Sicherheit der Person. Niemand darf in Sklaverei oder Leibeigenschaft gehalten werden.
+Hallo, wie geht es dir heute? Danke, mir geht es gut. Das Wetter ist sehr warm, deshalb haben wir beschlossen, nach der Arbeit im Park spazieren zu gehen.
+Wo ist der nächste Bahnhof? Ich weiß nicht, was er sagen wollte, aber es war interessant. Wir würden uns freuen, Sie wiederzusehen.
+Dieses Buch wurde vor vielen Jahren geschrieben, trotzdem lesen es die Leute noch immer mit großem Vergnügen. Bitte ruf mich morgen früh an.`,
+
+  it: `Tutti gli esseri umani nascono liberi ed eguali in dignità e diritti. Essi sono dotati di ragione e di coscienza e devono agire gli uni verso gli altri in spirito di fratellanza.
+Ogni individuo ha diritto alla vita, alla libertà ed alla sicurezza della propria persona. Nessun individuo potrà essere tenuto in stato di schiavitù o di servitù.
+Ciao, come stai oggi? Molto bene, grazie. Fa molto caldo, quindi abbiamo deciso di fare una passeggiata nel parco dopo il lavoro.
+Dove si trova la stazione ferroviaria più vicina? Non so che cosa volesse dire, ma era interessante. Saremo felici di rivederti presto.
+Questo libro è stato scritto molti anni fa, eppure la gente lo legge ancora con grande piacere. Per favore, chiamami domani mattina.`,
+
+  pt: `Todos os seres humanos nascem livres e iguais em dignidade e em direitos. Dotados de razão e de consciência, devem agir uns para com os outros em espírito de fraternidade.
+Todo o indivíduo tem direito à vida, à liberdade e à segurança pessoal. Ninguém será mantido em escravatura ou em servidão.
+Olá, como você está hoje? Muito bem, obrigado. Está muito calor, então decidimos dar um passeio no parque depois do trabalho.
+Onde fica a estação de comboio mais próxima? Não sei o que ele queria dizer, mas foi interessante. Ficaremos felizes em vê-lo novamente.
+Este livro foi escrito há muitos anos, no entanto as pessoas ainda o leem com grande prazer. Por favor, ligue-me amanhã de manhã, não se esqueça.`,
+
+  tr: `Bütün insanlar hür, haysiyet ve haklar bakımından eşit doğarlar. Akıl ve vicdana sahiptirler ve birbirlerine karşı kardeşlik zihniyeti ile hareket etmelidirler.
+Yaşamak, hürriyet ve kişi emniyeti her ferdin hakkıdır. Hiç kimse kölelik veya kulluk altında bulundurulamaz.
+Merhaba, bugün nasılsın? Çok iyiyim, teşekkür ederim. Hava çok sıcak, bu yüzden işten sonra parkta yürüyüş yapmaya karar verdik.
+En yakın tren istasyonu nerede? Ne söylemek istediğini bilmiyorum, ama çok ilginçti. Sizi tekrar görmekten mutluluk duyarız.
+Bu kitap uzun yıllar önce yazıldı, yine de insanlar onu hâlâ büyük bir zevkle okuyor. Lütfen yarın sabah beni ara.`,
+
+  nl: `Alle mensen worden vrij en gelijk in waardigheid en rechten geboren. Zij zijn begiftigd met verstand en geweten, en behoren zich jegens elkander in een geest van broederschap te gedragen.
+Een ieder heeft het recht op leven, vrijheid en onschendbaarheid van zijn persoon. Niemand zal in slavernij of horigheid gehouden worden.
+Hallo, hoe gaat het vandaag met je? Heel goed, dank je. Het is erg warm, dus we hebben besloten om na het werk in het park te wandelen.
+Waar is het dichtstbijzijnde treinstation? Ik weet niet wat hij wilde zeggen, maar het was interessant. We zouden blij zijn je weer te zien.
+Dit boek is vele jaren geleden geschreven, toch lezen mensen het nog steeds met veel plezier. Bel me alsjeblieft morgenochtend.`,
+
+  sv: `Alla människor är födda fria och lika i värde och rättigheter. De har utrustats med förnuft och samvete och bör handla gentemot varandra i en anda av broderskap.
+Var och en har rätt till liv, frihet och personlig säkerhet. Ingen får hållas i slaveri eller träldom.
+Hej, hur mår du idag? Mycket bra, tack. Det är väldigt varmt, så vi bestämde oss för att ta en promenad i parken efter jobbet.
+Var ligger den närmaste tågstationen? Jag vet inte vad han ville säga, men det var intressant. Vi skulle bli glada att träffa dig igen.
+Den här boken skrevs för många år sedan, ändå läser folk den fortfarande med stor glädje. Snälla ring mig i morgon bitti.`,
+
+  da: `Alle mennesker er født frie og lige i værdighed og rettigheder. De er udstyret med fornuft og samvittighed, og de bør handle mod hverandre i en broderskabets ånd.
+Enhver har ret til liv, frihed og personlig sikkerhed. Ingen må holdes i slaveri eller trældom.
+Hej, hvordan har du det i dag? Rigtig godt, tak. Det er meget varmt, så vi besluttede at gå en tur i parken efter arbejde.
+Hvor ligger den nærmeste togstation? Jeg ved ikke, hvad han ville sige, men det var interessant. Vi ville blive glade for at se dig igen.
+Denne bog blev skrevet for mange år siden, alligevel læser folk den stadig med stor fornøjelse. Vær sød at ringe til mig i morgen tidlig.`,
+
+  no: `Alle mennesker er født frie og med samme menneskeverd og menneskerettigheter. De er utstyrt med fornuft og samvittighet og bør handle mot hverandre i brorskapets ånd.
+Enhver har rett til liv, frihet og personlig sikkerhet. Ingen må holdes i slaveri eller trelldom.
+Hei, hvordan har du det i dag? Veldig bra, takk. Det er veldig varmt, så vi bestemte oss for å gå en tur i parken etter jobben.
+Hvor er nærmeste togstasjon? Jeg vet ikke hva han ville si, men det var interessant. Vi ville blitt glade for å se deg igjen.
+Denne boken ble skrevet for mange år siden, likevel leser folk den fremdeles med stor glede. Vær så snill og ring meg i morgen tidlig.`,
+
+  fi: `Kaikki ihmiset syntyvät vapaina ja tasavertaisina arvoltaan ja oikeuksiltaan. Heille on annettu järki ja omatunto, ja heidän on toimittava toisiaan kohtaan veljeyden hengessä.
+Jokaisella on oikeus elämään, vapauteen ja henkilökohtaiseen turvallisuuteen. Ketään ei saa pitää orjana tai orjuutettuna.
+Hei, mitä sinulle kuuluu tänään? Oikein hyvää, kiitos. Sää on todella lämmin, joten päätimme mennä kävelylle puistoon töiden jälkeen.
+Missä on lähin rautatieasema? En tiedä, mitä hän halusi sanoa, mutta se oli kiinnostavaa. Olisimme iloisia nähdessämme sinut uudelleen.
+Tämä kirja kirjoitettiin monta vuotta sitten, silti ihmiset lukevat sitä yhä suurella ilolla. Soita minulle huomenna aamulla, kiitos.`,
+
+  pl: `Wszyscy ludzie rodzą się wolni i równi pod względem swej godności i swych praw. Są oni obdarzeni rozumem i sumieniem i powinni postępować wobec innych w duchu braterstwa.
+Każdy człowiek ma prawo do życia, wolności i bezpieczeństwa swej osoby. Nikt nie może być trzymany w niewolnictwie lub w poddaństwie.
+Cześć, jak się dzisiaj masz? Bardzo dobrze, dziękuję. Jest bardzo ciepło, więc postanowiliśmy pójść na spacer do parku po pracy.
+Gdzie jest najbliższa stacja kolejowa? Nie wiem, co chciał powiedzieć, ale to było ciekawe. Będziemy szczęśliwi, mogąc znowu cię zobaczyć.
+Ta książka została napisana wiele lat temu, a jednak ludzie wciąż czytają ją z wielką przyjemnością. Proszę, zadzwoń do mnie jutro rano.`,
+
+  uk: `Всі люди народжуються вільними і рівними у своїй гідності та правах. Вони наділені розумом і совістю і повинні діяти у відношенні один до одного в дусі братерства.
+Кожна людина має право на життя, на свободу і на особисту недоторканність. Ніхто не повинен бути в рабстві або в підневільному стані.
+Привіт, як у тебе справи сьогодні? Дякую, все добре. Сьогодні дуже тепла погода, тому ми вирішили піти в парк після роботи.
+Де знаходиться найближча станція метро? Я не знаю, що він хотів сказати, але це було цікаво. Ми будемо раді побачити вас знову.
+Ця книжка була написана багато років тому, проте її досі читають з великим задоволенням. Будь ласка, зателефонуйте мені завтра вранці.`,
+
+  be: `Усе людзі нараджаюцца свабоднымі і роўнымі ў сваёй годнасці і правах. Яны надзелены розумам і сумленнем і павінны ставіцца адзін да аднаго ў духу брацтва.
+Кожны чалавек мае права на жыццё, на свабоду і на асабістую недатыкальнасць. Ніхто не павінен утрымлівацца ў рабстве або ў падняволным стане.
+Прывітанне, як у цябе справы сёння? Дзякуй, усё добра. Сёння вельмі цёплае надвор'е, таму мы вырашылі пайсці ў парк пасля работы.
+Дзе знаходзіцца бліжэйшая станцыя метро? Я не ведаю, што ён хацеў сказаць, але гэта было цікава. Мы будзем рады ўбачыць вас зноў.
+Гэтая кніга была напісана шмат гадоў таму, аднак яе дагэтуль чытаюць з вялікім задавальненнем. Калі ласка, патэлефануйце мне заўтра раніцай.`,
+
+  bg: `Всички хора се раждат свободни и равни по достойнство и права. Те са надарени с разум и съвест и следва да се отнасят помежду си в дух на братство.
+Всеки човек има право на живот, свобода и лична сигурност. Никой не може да бъде държан в робство или в принудително подчинение.
+Здравей, как си днес? Благодаря, всичко е наред. Времето е много топло, затова решихме да се разходим в парка след работа.
+Къде се намира най-близката гара? Не знам какво искаше да каже, но беше интересно. Ще се радваме да ви видим отново.
+Тази книга е написана преди много години, но хората все още я четат с голямо удоволствие. Моля, обадете ми се утре сутринта.`,
+
+  sr: `Сва људска бића рађају се слободна и једнака у достојанству и правима. Она су обдарена разумом и свешћу и треба једни према другима да поступају у духу братства.
+Свако има право на живот, слободу и личну безбедност. Нико не сме бити држан у ропству или потчињености.
+Здраво, како си данас? Хвала, све је у реду. Време је веома топло, па смо одлучили да прошетамо у парку после посла.
+Где се налази најближа железничка станица? Не знам шта је хтео да каже, али било је занимљиво. Биће нам драго да вас поново видимо.
+Ова књига је написана пре много година, али је људи и даље читају са великим задовољством. Молим вас, позовите ме сутра ујутру.`,
+
+  cs: `Všichni lidé rodí se svobodní a sobě rovní co do důstojnosti a práv. Jsou nadáni rozumem a svědomím a mají spolu jednat v duchu bratrství.
+Každý má právo na život, svobodu a osobní bezpečnost. Nikdo nesmí být držen v otroctví nebo nevolnictví.
+Ahoj, jak se dnes máš? Děkuji, mám se dobře. Je velmi teplo, a tak jsme se rozhodli jít po práci na procházku do parku.
+Kde je nejbližší vlakové nádraží? Nevím, co chtěl říct, ale bylo to zajímavé. Rádi vás zase uvidíme.
+Tato kniha byla napsána před mnoha lety, přesto ji lidé stále čtou s velkým potěšením. Prosím, zavolejte mi zítra ráno.`,
+
+  sk: `Všetci ľudia sa rodia slobodní a sebe rovní, čo sa týka ich dôstojnosti a práv. Sú obdarení rozumom a svedomím a majú navzájom jednať v bratskom duchu.
+Každý má právo na život, slobodu a osobnú bezpečnosť. Nikoho nemožno držať v otroctve alebo nevoľníctve.
+Ahoj, ako sa dnes máš? Ďakujem, mám sa dobre. Je veľmi teplo, tak sme sa rozhodli ísť po práci na prechádzku do parku.
+Kde je najbližšia železničná stanica? Neviem, čo chcel povedať, ale bolo to zaujímavé. Radi vás opäť uvidíme.
+Táto kniha bola napísaná pred mnohými rokmi, napriek tomu ju ľudia stále čítajú s veľkým potešením. Prosím, zavolajte mi zajtra ráno.`,
+
+  hu: `Minden emberi lény szabadon születik és egyenlő méltósága és joga van. Az emberek, ésszel és lelkiismerettel bírván, egymással szemben testvéri szellemben kell hogy viseltessenek.
+Minden személynek joga van az élethez, a szabadsághoz és a személyi biztonsághoz. Senkit sem lehet rabszolgaságban vagy szolgaságban tartani.
+Szia, hogy vagy ma? Köszönöm, jól vagyok. Nagyon meleg van, ezért úgy döntöttünk, hogy munka után sétálunk egyet a parkban.
+Hol van a legközelebbi vasútállomás? Nem tudom, mit akart mondani, de érdekes volt. Örülnénk, ha újra látnánk önt.
+Ezt a könyvet sok évvel ezelőtt írták, az emberek mégis nagy örömmel olvassák ma is. Kérem, hívjon fel holnap reggel.`,
+
+  ro: `Toate ființele umane se nasc libere și egale în demnitate și în drepturi. Ele sunt înzestrate cu rațiune și conștiință și trebuie să se comporte unele față de altele în spiritul fraternității.
+Orice ființă umană are dreptul la viață, la libertate și la securitatea persoanei sale. Nimeni nu va fi ținut în sclavie, nici în servitute.
+Bună, ce mai faci astăzi? Mulțumesc, sunt bine. Este foarte cald, așa că am hotărât să ne plimbăm prin parc după serviciu.
+Unde este cea mai apropiată gară? Nu știu ce a vrut să spună, dar a fost interesant. Ne-ar face plăcere să vă revedem.
+Această carte a fost scrisă acum mulți ani, totuși oamenii o citesc și acum cu mare plăcere. Vă rog să mă sunați mâine dimineață.`,
+
+  hr: `Sva ljudska bića rađaju se slobodna i jednaka u dostojanstvu i pravima. Ona su obdarena razumom i sviješću pa bi jedna prema drugima trebala postupati u duhu bratstva.
+Svatko ima pravo na život, slobodu i osobnu sigurnost. Nitko ne smije biti držan u ropstvu ili podložnosti.
+Bok, kako si danas? Hvala, sve je u redu. Vrijeme je jako toplo, pa smo odlučili prošetati u parku nakon posla.
+Gdje se nalazi najbliži željeznički kolodvor? Ne znam što je htio reći, ali bilo je zanimljivo. Bit će nam drago ponovno vas vidjeti.
+Ova je knjiga napisana prije mnogo godina, no ljudi je i dalje čitaju s velikim zadovoljstvom. Molim vas, nazovite me sutra ujutro.`,
+
+  sl: `Vsi ljudje se rodijo svobodni in imajo enako dostojanstvo in enake pravice. Obdarjeni so z razumom in vestjo in bi morali ravnati drug z drugim kakor bratje.
+Vsakdo ima pravico do življenja, prostosti in osebne varnosti. Nikogar se ne sme držati v suženjstvu ali podložnosti.
+Živjo, kako si danes? Hvala, vse je v redu. Vreme je zelo toplo, zato smo se odločili, da gremo po službi na sprehod v park.
+Kje je najbližja železniška postaja? Ne vem, kaj je hotel povedati, ampak bilo je zanimivo. Veseli bomo, če vas spet vidimo.
+Ta knjiga je bila napisana pred mnogimi leti, vendar jo ljudje še vedno berejo z velikim veseljem. Prosim, pokličite me jutri zjutraj.`,
+
+  et: `Kõik inimesed sünnivad vabadena ja võrdsetena oma väärikuselt ja õigustelt. Neile on antud mõistus ja südametunnistus ja nende suhtumist üksteisesse peab kandma vendluse vaim.
+Igal inimesel on õigus elule, vabadusele ja isikupuutumatusele. Kedagi ei tohi pidada orjuses ega sunnitöölisena.
+Tere, kuidas sul täna läheb? Aitäh, mul läheb hästi. Ilm on väga soe, seega otsustasime pärast tööd pargis jalutama minna.
+Kus asub lähim rongijaam? Ma ei tea, mida ta öelda tahtis, kuid see oli huvitav. Meil oleks hea meel teid jälle näha.
+See raamat kirjutati palju aastaid tagasi, ometi loevad inimesed seda endiselt suure rõõmuga. Palun helistage mulle homme hommikul.`,
+
+  lv: `Visi cilvēki piedzimst brīvi un vienlīdzīgi savā pašcieņā un tiesībās. Viņi ir apveltīti ar saprātu un sirdsapziņu, un viņiem jāizturas citam pret citu brālības garā.
+Ikvienam cilvēkam ir tiesības uz dzīvību, brīvību un personas neaizskaramību. Nevienu nedrīkst turēt verdzībā vai kalpībā.
+Sveiki, kā tev šodien klājas? Paldies, viss ir labi. Laiks ir ļoti silts, tāpēc mēs nolēmām pēc darba pastaigāties parkā.
+Kur atrodas tuvākā dzelzceļa stacija? Es nezinu, ko viņš gribēja teikt, bet tas bija interesanti. Mēs būsim priecīgi jūs atkal redzēt.
+Šī grāmata tika uzrakstīta pirms daudziem gadiem, tomēr cilvēki to joprojām lasa ar lielu prieku. Lūdzu, piezvaniet man rīt no rīta.`,
+
+  lt: `Visi žmonės gimsta laisvi ir lygūs savo orumu ir teisėmis. Jiems suteiktas protas ir sąžinė, ir jie turi elgtis vienas kito atžvilgiu kaip broliai.
+Kiekvienas žmogus turi teisę į gyvybę, laisvę ir asmens saugumą. Niekas negali būti laikomas vergijoje ar nelaisvėje.
+Labas, kaip tau šiandien sekasi? Ačiū, viskas gerai. Oras labai šiltas, todėl nusprendėme po darbo pasivaikščioti parke.
+Kur yra artimiausia geležinkelio stotis? Nežinau, ką jis norėjo pasakyti, bet buvo įdomu. Mums būtų malonu vėl jus pamatyti.
+Ši knyga buvo parašyta prieš daugelį metų, tačiau žmonės ją vis dar skaito su dideliu malonumu. Prašau, paskambinkite man rytoj ryte.`,
+
+  zh: `人人生而自由，在尊严和权利上一律平等。他们赋有理性和良心，并应以兄弟关系的精神相对待。
+人人有权享有生命、自由和人身安全。任何人不得使为奴隶或奴役。
+你好，你今天怎么样？很好，谢谢。天气非常热，所以我们决定下班以后去公园散步。
+最近的火车站在哪里？我不知道他想说什么，但是这很有意思。我们很高兴再次见到你。
+这本书是很多年前写的，但是人们仍然很喜欢读它。请明天早上给我打电话。
+我们想在这个周末去看电影，你要不要一起来？他们已经订好了两张桌子，晚上七点在饭店见面。
+这个问题我还没有想好，等一下再告诉你吧。她说她的朋友明年要去北京学习中文。
+因为下雨了，所以孩子们都在家里玩游戏。请问这件衣服多少钱？太贵了，可以便宜一点吗？`,
+
+  ja: `すべての人間は、生まれながらにして自由であり、かつ、尊厳と権利とについて平等である。人間は、理性と良心とを授けられており、互いに同胞の精神をもって行動しなければならない。
+すべて人は、生命、自由及び身体の安全に対する権利を有する。何人も、奴隷にされ、又は苦役に服することはない。
+こんにちは、今日はお元気ですか？はい、元気です、ありがとうございます。とても暑いので、仕事の後で公園を散歩することにしました。
+一番近い駅はどこですか？彼が何を言いたかったのか分かりませんが、とても面白かったです。またお会いできるのを楽しみにしています。
+この本は何年も前に書かれましたが、今でも多くの人に読まれています。明日の朝、私に電話してください。`,
+
+  ko: `모든 인간은 태어날 때부터 자유로우며 그 존엄과 권리에 있어 동등하다. 인간은 천부적으로 이성과 양심을 부여받았으며 서로 형제애의 정신으로 행동하여야 한다.
+모든 사람은 생명과 신체의 자유와 안전에 대한 권리를 가진다. 어느 누구도 노예상태 또는 예속상태에 놓여지지 아니한다.
+안녕하세요, 오늘 어떻게 지내세요? 아주 잘 지내요, 감사합니다. 날씨가 너무 더워서 퇴근 후에 공원을 산책하기로 했어요.
+가장 가까운 기차역은 어디에 있나요? 그가 무슨 말을 하고 싶었는지 모르겠지만 아주 흥미로웠어요. 다시 만나게 되면 정말 기쁠 거예요.
+이 책은 오래 전에 쓰였지만 사람들은 여전히 큰 즐거움으로 읽고 있습니다. 내일 아침에 저에게 전화해 주세요.`,
+
+  ar: `يولد جميع الناس أحرارًا متساوين في الكرامة والحقوق. وقد وهبوا عقلًا وضميرًا وعليهم أن يعامل بعضهم بعضًا بروح الإخاء.
+لكل فرد الحق في الحياة والحرية وسلامة شخصه. لا يجوز استرقاق أو استعباد أي شخص.
+مرحبا، كيف حالك اليوم؟ أنا بخير، شكرا لك. الطقس حار جدا، لذلك قررنا أن نتمشى في الحديقة بعد العمل.
+أين تقع أقرب محطة قطار؟ لا أعرف ماذا أراد أن يقول، لكنه كان مثيرا للاهتمام. سنكون سعداء برؤيتك مرة أخرى.
+كتب هذا الكتاب منذ سنوات عديدة، ومع ذلك لا يزال الناس يقرؤونه بسرور كبير. من فضلك اتصل بي غدا صباحا.`,
+
+  hi: `सभी मनुष्यों को गौरव और अधिकारों के मामले में जन्मजात स्वतंत्रता और समानता प्राप्त है। उन्हें बुद्धि और अंतरात्मा की देन प्राप्त है और परस्पर उन्हें भाईचारे के भाव से बर्ताव करना चाहिए।
+प्रत्येक व्यक्ति को जीवन, स्वाधीनता और वैयक्तिक सुरक्षा का अधिकार है। कोई भी गुलामी या दासता की हालत में न रखा जाएगा।
+नमस्ते, आज आप कैसे हैं? मैं बहुत अच्छा हूँ, धन्यवाद। मौसम बहुत गर्म है, इसलिए हमने काम के बाद पार्क में टहलने का फैसला किया।
+सबसे नज़दीकी रेलवे स्टेशन कहाँ है? मुझे नहीं पता कि वह क्या कहना चाहता था, लेकिन यह बहुत दिलचस्प था। आपसे फिर मिलकर हमें खुशी होगी।
+यह किताब कई साल पहले लिखी गई थी, फिर भी लोग इसे बड़े आनंद से पढ़ते हैं। कृपया मुझे कल सुबह फोन कीजिए।`
+};
@@ -1,30 +1,104 @@
-export interface Language {
+// Единый реестр языков: из него берут данные выбор языка, распознавание текста (OCR),
+// провайдеры перевода и нормализация кодов
+
+// Письменность по ISO 15924
+export type LanguageScript = 'Latn' | 'Cyrl' | 'Arab' | 'Deva' | 'Hans' | 'Jpan' | 'Kore';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+// Встроенные провайдеры перевода, для которых известна поддержка языков
+export type ProviderSupport = Record<'google' | 'mymemory' | 'libretranslate', boolean>;
+
+export interface LanguageOption {
   code: string;
+  // Название по-русски, на языке интерфейса
   name: string;
-  flag: string;
+  // Самоназвание языка
+  nativeName: string;
 }
 
-export const languages: Language[] = [
-  { code: 'auto', name: 'Автоопределение', flag: '' },
-  { code: 'ru', name: 'Русский', flag: '' },
-  { code: 'en', name: 'English', flag: '' },
-  { code: 'es', name: 'Español', flag: '' },
-  { code: 'fr', name: 'Français', flag: '' },
-  { code: 'de', name: 'Deutsch', flag: '' },
-  { code: 'it', name: 'Italiano', flag: '' },
-  { code: 'pt', name: 'Português', flag: '' },
-  { code: 'zh', name: '中文', flag: '' },
-  { code: 'ja', name: '日本語', flag: '' },
-  { code: 'ko', name: '한국어', flag: '' },
-  { code: 'ar', name: 'العربية', flag: '' },
-  { code: 'hi', name: 'हिन्दी', flag: '' },
-  { code: 'tr', name: 'Türkçe', flag: '' },
-  { code: 'nl', name: 'Nederlands', flag: '' },
-  { code: 'sv', name: 'Svenska', flag: '' },
-  { code: 'da', name: 'Dansk', flag: '' },
-  { code: 'no', name: 'Norsk', flag: '' },
-  { code: 'fi', name: 'Suomi', flag: '' },
-  { code: 'pl', name: 'Polski', flag: '' }
+export interface LanguageInfo extends LanguageOption {
+  // Код ISO 639-1 хранится в code, здесь — ISO 639-3
+  iso3: string;
+  script: LanguageScript;
+  direction: TextDirection;
+  // Модель Tesseract для распознавания текста на изображениях
+  tesseract: string | null;
+  providers: ProviderSupport;
+  // Другие написания кода и английские названия, которые встречаются в ответах провайдеров и файлах
+  aliases: string[];
+}
+
+const ALL_PROVIDERS: ProviderSupport = { google: true, mymemory: true, libretranslate: true };
+// Публичный LibreTranslate знает не все языки, а норвежский называет «nb»
+const WITHOUT_LIBRE: ProviderSupport = { google: true, mymemory: true, libretranslate: false };
+
+export const languageRegistry: LanguageInfo[] = [
+  { code: 'ru', iso3: 'rus', name: 'Русский', nativeName: 'Русский', script: 'Cyrl', direction: 'ltr', tesseract: 'rus', providers: ALL_PROVIDERS, aliases: ['russian'] },
+  { code: 'en', iso3: 'eng', name: 'Английский', nativeName: 'English', script: 'Latn', direction: 'ltr', tesseract: 'eng', providers: ALL_PROVIDERS, aliases: ['english'] },
+  { code: 'es', iso3: 'spa', name: 'Испанский', nativeName: 'Español', script: 'Latn', direction: 'ltr', tesseract: 'spa', providers: ALL_PROVIDERS, aliases: ['spanish'] },
+  { code: 'fr', iso3: 'fra', name: 'Французский', nativeName: 'Français', script: 'Latn', direction: 'ltr', tesseract: 'fra', providers: ALL_PROVIDERS, aliases: ['french', 'fre'] },
+  { code: 'de', iso3: 'deu', name: 'Немецкий', nativeName: 'Deutsch', script: 'Latn', direction: 'ltr', tesseract: 'deu', providers: ALL_PROVIDERS, aliases: ['german', 'ger'] },
+  { code: 'it', iso3: 'ita', name: 'Итальянский', nativeName: 'Italiano', script: 'Latn', direction: 'ltr', tesseract: 'ita', providers: ALL_PROVIDERS, aliases: ['italian'] },
+  { code: 'pt', iso3: 'por', name: 'Португальский', nativeName: 'Português', script: 'Latn', direction: 'ltr', tesseract: 'por', providers: ALL_PROVIDERS, aliases: ['portuguese'] },
+  { code: 'zh', iso3: 'zho', name: 'Китайский', nativeName: '中文', script: 'Hans', direction: 'ltr', tesseract: 'chi_sim', providers: ALL_PROVIDERS, aliases: ['chinese', 'chi', 'zh-cn', 'zh-hans'] },
+  { code: 'ja', iso3: 'jpn', name: 'Японский', nativeName: '日本語', script: 'Jpan', direction: 'ltr', tesseract: 'jpn', providers: ALL_PROVIDERS, aliases: ['japanese'] },
+  { code: 'ko', iso3: 'kor', name: 'Корейский', nativeName: '한국어', script: 'Kore', direction: 'ltr', tesseract: 'kor', providers: ALL_PROVIDERS, aliases: ['korean'] },
+  { code: 'ar', iso3: 'ara', name: 'Арабский', nativeName: 'العربية', script: 'Arab', direction: 'rtl', tesseract: 'ara', providers: ALL_PROVIDERS, aliases: ['arabic'] },
+  { code: 'hi', iso3: 'hin', name: 'Хинди', nativeName: 'हिन्दी', script: 'Deva', direction: 'ltr', tesseract: 'hin', providers: ALL_PROVIDERS, aliases: ['hindi'] },
+  { code: 'tr', iso3: 'tur', name: 'Турецкий', nativeName: 'Türkçe', script: 'Latn', direction: 'ltr', tesseract: 'tur', providers: ALL_PROVIDERS, aliases: ['turkish'] },
+  { code: 'nl', iso3: 'nld', name: 'Нидерландский', nativeName: 'Nederlands', script: 'Latn', direction: 'ltr', tesseract: 'nld', providers: ALL_PROVIDERS, aliases: ['dutch', 'dut'] },
+  { code: 'sv', iso3: 'swe', name: 'Шведский', nativeName: 'Svenska', script: 'Latn', direction: 'ltr', tesseract: 'swe', providers: ALL_PROVIDERS, aliases: ['swedish'] },
+  { code: 'da', iso3: 'dan', name: 'Датский', nativeName: 'Dansk', script: 'Latn', direction: 'ltr', tesseract: 'dan', providers: ALL_PROVIDERS, aliases: ['danish'] },
+  { code: 'no', iso3: 'nor', name: 'Норвежский', nativeName: 'Norsk', script: 'Latn', direction: 'ltr', tesseract: 'nor', providers: WITHOUT_LIBRE, aliases: ['norwegian', 'nb', 'nob', 'nn', 'nno'] },
+  { code: 'fi', iso3: 'fin', name: 'Финский', nativeName: 'Suomi', script: 'Latn', direction: 'ltr', tesseract: 'fin', providers: ALL_PROVIDERS, aliases: ['finnish'] },
+  { code: 'pl', iso3: 'pol', name: 'Польский', nativeName: 'Polski', script: 'Latn', direction: 'ltr', tesseract: 'pol', providers: ALL_PROVIDERS, aliases: ['polish'] },
+  { code: 'uk', iso3: 'ukr', name: 'Украинский', nativeName: 'Українська', script: 'Cyrl', direction: 'ltr', tesseract: 'ukr', providers: ALL_PROVIDERS, aliases: ['ukrainian'] },
+  { code: 'be', iso3: 'bel', name: 'Белорусский', nativeName: 'Беларуская', script: 'Cyrl', direction: 'ltr', tesseract: 'bel', providers: WITHOUT_LIBRE, aliases: ['belarusian'] },
+  { code: 'cs', iso3: 'ces', name: 'Чешский', nativeName: 'Čeština', script: 'Latn', direction: 'ltr', tesseract: 'ces', providers: ALL_PROVIDERS, aliases: ['czech', 'cze'] },
+  { code: 'sk', iso3: 'slk', name: 'Словацкий', nativeName: 'Slovenčina', script: 'Latn', direction: 'ltr', tesseract: 'slk', providers: ALL_PROVIDERS, aliases: ['slovak', 'slo'] },
+  { code: 'hu', iso3: 'hun', name: 'Венгерский', nativeName: 'Magyar', script: 'Latn', direction: 'ltr', tesseract: 'hun', providers: ALL_PROVIDERS, aliases: ['hungarian'] },
+  { code: 'ro', iso3: 'ron', name: 'Румынский', nativeName: 'Română', script: 'Latn', direction: 'ltr', tesseract: 'ron', providers: ALL_PROVIDERS, aliases: ['romanian', 'rum', 'mo'] },
+  { code: 'bg', iso3: 'bul', name: 'Болгарский', nativeName: 'Български', script: 'Cyrl', direction: 'ltr', tesseract: 'bul', providers: ALL_PROVIDERS, aliases: ['bulgarian'] },
+  { code: 'hr', iso3: 'hrv', name: 'Хорватский', nativeName: 'Hrvatski', script: 'Latn', direction: 'ltr', tesseract: 'hrv', providers: WITHOUT_LIBRE, aliases: ['croatian'] },
+  { code: 'sr', iso3: 'srp', name: 'Сербский', nativeName: 'Српски', script: 'Cyrl', direction: 'ltr', tesseract: 'srp', providers: WITHOUT_LIBRE, aliases: ['serbian'] },
+  { code: 'sl', iso3: 'slv', name: 'Словенский', nativeName: 'Slovenščina', script: 'Latn', direction: 'ltr', tesseract: 'slv', providers: ALL_PROVIDERS, aliases: ['slovenian', 'slovene'] },
+  { code: 'et', iso3: 'est', name: 'Эстонский', nativeName: 'Eesti', script: 'Latn', direction: 'ltr', tesseract: 'est', providers: ALL_PROVIDERS, aliases: ['estonian'] },
+  { code: 'lv', iso3: 'lav', name: 'Латышский', nativeName: 'Latviešu', script: 'Latn', direction: 'ltr', tesseract: 'lav', providers: ALL_PROVIDERS, aliases: ['latvian'] },
+  { code: 'lt', iso3: 'lit', name: 'Литовский', nativeName: 'Lietuvių', script: 'Latn', direction: 'ltr', tesseract: 'lit', providers: ALL_PROVIDERS, aliases: ['lithuanian'] }
 ];
 
-export const targetLanguages = languages.filter(lang => lang.code !== 'auto');
\ No newline at end of file
+export const AUTO_LANGUAGE: LanguageOption = { code: 'auto', name: 'Автоопределение', nativeName: '' };
+
+// Варианты для исходного языка: автоопределение и все языки реестра
+export const languages: LanguageOption[] = [AUTO_LANGUAGE, ...languageRegistry];
+
+export const targetLanguages: LanguageInfo[] = languageRegistry;
+
+const lookup = new Map<string, LanguageInfo>();
+for (const language of languageRegistry) {
+  for (const key of [language.code, language.iso3, language.tesseract, ...language.aliases]) {
+    if (key) lookup.set(key, language);
+  }
+}
+
+// Поиск по любому известному коду или названию; «en-US» и «pt_BR» сводятся к основному подтегу
+export const findLanguage = (code: string): LanguageInfo | undefined => {
+  const normalized = code.trim().toLowerCase();
+  return lookup.get(normalized) ?? lookup.get(normalized.split(/[-_]/)[0]);
+};
+
+// Код ISO 639-1 для ответа провайдера или сохраненного значения; неизвестные коды возвращаются как есть
+export const normalizeLanguageCode = (code: string): string =>
+  code.toLowerCase() === 'auto' ? 'auto' : findLanguage(code)?.code ?? code;
+
+export const getLanguageName = (code: string): string =>
+  (code === AUTO_LANGUAGE.code ? AUTO_LANGUAGE : findLanguage(code))?.name ?? code.toUpperCase();
+
+// Языки, с которыми работает встроенный провайдер
+export const getProviderLanguages = (provider: keyof ProviderSupport): string[] =>
+  languageRegistry.filter(language => language.providers[provider]).map(language => language.code);
+
+// Направление письма для атрибута dir; при автоопределении его выбирает браузер по первым буквам текста
+export const getTextDirection = (code: string): TextDirection | 'auto' =>
+  code === AUTO_LANGUAGE.code ? 'auto' : findLanguage(code)?.direction ?? 'auto';
@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DictionaryService, DictionaryPackInfo, InstalledPackInfo } from '../services/dictionaryService';
+
+export const useDictionaries = () => {
+  const [available, setAvailable] = useState<DictionaryPackInfo[]>([]);
+  const [installed, setInstalled] = useState<InstalledPackInfo[]>([]);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshInstalled = useCallback(async () => {
+    try {
+      setInstalled(await DictionaryService.getInstalled());
+    } catch (loadError) {
+      console.warn('Failed to load installed dictionaries:', loadError);
+    }
+  }, []);
+
+  useEffect(() => {
+    DictionaryService.getAvailable()
+      .then(setAvailable)
+      .catch(loadError => setError((loadError as Error).message));
+    refreshInstalled();
+  }, [refreshInstalled]);
+
+  const install = useCallback(async (pack: DictionaryPackInfo) => {
+    setBusy(pack.id);
+    try {
+      await DictionaryService.install(pack);
+      await refreshInstalled();
+    } finally {
+      setBusy(null);
+    }
+  }, [refreshInstalled]);
+
+  const remove = useCallback(async (id: string) => {
+    setBusy(id);
+    try {
+      await DictionaryService.remove(id);
+      await refreshInstalled();
+    } finally {
+      setBusy(null);
+    }
+  }, [refreshInstalled]);
+
+  return { available, installed, busy, error, install, remove };
+};
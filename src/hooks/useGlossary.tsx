@@ -0,0 +1,31 @@
+import { useState, useCallback } from 'react';
+import { GlossaryService, GlossaryRule } from '../services/glossaryService';
+
+export const useGlossary = () => {
+  const [rules, setRules] = useState<GlossaryRule[]>(() => GlossaryService.getRules());
+
+  const updateRules = useCallback((update: (prev: GlossaryRule[]) => GlossaryRule[]) => {
+    const next = update(rules);
+    setRules(next);
+    GlossaryService.saveRules(next);
+  }, [rules]);
+
+  const addRule = useCallback((rule: Omit<GlossaryRule, 'id' | 'enabled'>) => {
+    updateRules(prev => [GlossaryService.createRule(rule), ...prev]);
+  }, [updateRules]);
+
+  const updateRule = useCallback((id: string, changes: Partial<GlossaryRule>) => {
+    updateRules(prev => prev.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  }, [updateRules]);
+
+  const removeRule = useCallback((id: string) => {
+    updateRules(prev => prev.filter(rule => rule.id !== id));
+  }, [updateRules]);
+
+  return {
+    rules,
+    addRule,
+    updateRule,
+    removeRule
+  };
+};
@@ -0,0 +1,69 @@
+import { useEffect, useRef } from 'react';
+import { TranslationResult } from '../services/translationService';
+import { TextFormat } from '../services/markupProtection';
+import { isCancelled } from '../services/cancellation';
+import { TextTranslationOptions } from './useTranslation';
+
+// Пауза после последнего нажатия клавиши, после которой запускается перевод
+const LIVE_TRANSLATION_DELAY = 700;
+
+interface LiveTranslationOptions {
+  enabled: boolean;
+  text: string;
+  fromLang: string;
+  toLangs: string[];
+  format: TextFormat;
+  // Последние показанные переводы: их неизменившиеся сегменты не переводятся повторно
+  previous: TranslationResult[];
+  translate: (text: string, fromLang: string, toLangs: string[], options: TextTranslationOptions) => Promise<TranslationResult[]>;
+  cancel: () => void;
+  onResult: (results: TranslationResult[]) => void;
+  onEmpty: () => void;
+  onError: (error: Error) => void;
+}
+
+// Мгновенный режим: перевод запускается сам после паузы в наборе текста
+export const useLiveTranslation = (options: LiveTranslationOptions) => {
+  // Колбэки и предыдущий результат читаем из ref, чтобы их смена не перезапускала таймер
+  const latest = useRef(options);
+  latest.current = options;
+
+  const { enabled, text, fromLang, toLangs, format } = options;
+  // Массив языков пересоздается при каждом рендере, поэтому зависимостью эффекта служит строка
+  const targetsKey = toLangs.join(',');
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    if (!text.trim()) {
+      latest.current.onEmpty();
+      return;
+    }
+
+    let inFlight = false;
+    const timer = setTimeout(() => {
+      const { translate, previous, onResult, onError } = latest.current;
+      inFlight = true;
+
+      translate(text, fromLang, targetsKey.split(','), { format, previous, bySentence: true, saveToHistory: false })
+        .then(onResult)
+        .catch(error => {
+          if (!isCancelled(error)) {
+            onError(error as Error);
+          }
+        })
+        .finally(() => {
+          inFlight = false;
+        });
+    }, LIVE_TRANSLATION_DELAY);
+
+    // Текст изменился: незаконченный перевод устарел и не должен попасть в интерфейс
+    return () => {
+      clearTimeout(timer);
+      if (inFlight) {
+        latest.current.cancel();
+      }
+    };
+  }, [enabled, text, fromLang, targetsKey, format]);
+};
@@ -0,0 +1,21 @@
+import { useState, useEffect, useCallback } from 'react';
+import { OfflineService, OfflineSettings } from '../services/offlineService';
+
+export const useOfflineMode = () => {
+  const [offline, setOffline] = useState(() => OfflineService.isOffline());
+  const [settings, setSettings] = useState<OfflineSettings>(() => OfflineService.getSettings());
+
+  useEffect(() => {
+    // Состояние меняется и от событий браузера, и от сетевых ошибок провайдеров во время перевода
+    return OfflineService.subscribe(() => {
+      setOffline(OfflineService.isOffline());
+      setSettings(OfflineService.getSettings());
+    });
+  }, []);
+
+  const configure = useCallback((changes: Partial<OfflineSettings>) => {
+    OfflineService.configure(changes);
+  }, []);
+
+  return { offline, settings, configure };
+};
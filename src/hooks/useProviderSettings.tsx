@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ProviderRegistry, ProviderConfig, RegisteredProvider } from '../services/providerRegistry';
+
+export const useProviderSettings = () => {
+  const [providers, setProviders] = useState<RegisteredProvider[]>(() => ProviderRegistry.getProviders());
+  const [testing, setTesting] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Реестр меняется не только из настроек, но и при каждом переводе (состояние здоровья)
+    return ProviderRegistry.subscribe(() => setProviders(ProviderRegistry.getProviders()));
+  }, []);
+
+  const updateConfig = useCallback((id: string, config: Partial<ProviderConfig>) => {
+    ProviderRegistry.configure(id, config);
+  }, []);
+
+  const toggleProvider = useCallback((id: string, enabled: boolean) => {
+    ProviderRegistry.setEnabled(id, enabled);
+  }, []);
+
+  const moveProvider = useCallback((id: string, direction: -1 | 1) => {
+    const ids = ProviderRegistry.getProviders().map(entry => entry.provider.id);
+    const index = ids.indexOf(id);
+    const target = index + direction;
+
+    if (index === -1 || target < 0 || target >= ids.length) {
+      return;
+    }
+
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    ProviderRegistry.setOrder(ids);
+  }, []);
+
+  const resetProvider = useCallback((id: string) => {
+    ProviderRegistry.reset(id);
+  }, []);
+
+  const testProvider = useCallback(async (id: string) => {
+    setTesting(id);
+    try {
+      return await ProviderRegistry.testConnection(id);
+    } finally {
+      setTesting(null);
+    }
+  }, []);
+
+  return {
+    providers,
+    testing,
+    updateConfig,
+    toggleProvider,
+    moveProvider,
+    resetProvider,
+    testProvider
+  };
+};
@@ -1,115 +1,270 @@
-import { useState, useCallback } from 'react';
-import { TranslationService } from '../services/translationService';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { TranslationService, TranslationResult, TranslateOptions, TranslationVariant } from '../services/translationService';
 import { OCRService } from '../services/ocrService';
+import { HistoryService, TranslationHistory, HistorySourceType } from '../services/historyService';
+import { DocumentService, DocumentTranslationResult } from '../services/documentService';
+import { TranslationMemory } from '../services/translationMemory';
+import { CancelledError } from '../services/cancellation';
 
-interface TranslationHistory {
-  id: string;
-  sourceText: string;
-  translatedText: string;
-  fromLanguage: string;
-  toLanguage: string;
-  timestamp: Date;
+export type { TranslationHistory } from '../services/historyService';
+
+export interface TextTranslationOptions extends Omit<TranslateOptions, 'signal'> {
+  // Промежуточные переводы мгновенного режима в историю не попадают
+  saveToHistory?: boolean;
 }
 
+// Результат отмененной или вытесненной операции не должен попасть в интерфейс
+const finishOperation = <T,>(controller: AbortController, value: T): T => {
+  if (controller.signal.aborted) {
+    throw new CancelledError();
+  }
+  return value;
+};
+
 export const useTranslation = () => {
   const [history, setHistory] = useState<TranslationHistory[]>([]);
   const [loading, setLoading] = useState(false);
+  // Контроллер текущей операции: новая операция или отмена прерывают предыдущую
+  const operationRef = useRef<AbortController | null>(null);
+
+  // Загружаем сохраненную историю при старте
+  useEffect(() => {
+    HistoryService.getAll()
+      .then(setHistory)
+      .catch(error => console.warn('Failed to load translation history:', error));
+  }, []);
+
+  const startOperation = useCallback((): AbortController => {
+    operationRef.current?.abort();
+    const controller = new AbortController();
+    operationRef.current = controller;
+    setLoading(true);
+    return controller;
+  }, []);
+
+  const endOperation = useCallback((controller: AbortController) => {
+    if (operationRef.current === controller) {
+      operationRef.current = null;
+      setLoading(false);
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    operationRef.current?.abort();
+    operationRef.current = null;
+    setLoading(false);
+  }, []);
 
+  // Незавершенные запросы прерываем при размонтировании
+  useEffect(() => () => operationRef.current?.abort(), []);
+
+  const addToHistory = useCallback((
+    sourceText: string,
+    result: TranslationResult,
+    sourceType: HistorySourceType
+  ): string => {
+    const historyItem: TranslationHistory = {
+      id: HistoryService.createId(),
+      sourceText,
+      translatedText: result.text,
+      fromLanguage: result.sourceLanguage,
+      toLanguage: result.targetLanguage,
+      timestamp: new Date(),
+      sourceType,
+      pinned: false,
+      machineFallback: result.chunks.some(chunk => chunk.fallback !== null),
+      segments: TranslationService.getMemorySegments(result)
+    };
+
+    setHistory(prev => HistoryService.sort([historyItem, ...prev]));
+    HistoryService.save([historyItem]).catch(error => console.warn('Failed to save history entry:', error));
+    historyItem.segments?.forEach(segment => TranslationMemory.remember(
+      segment.sourceLanguage,
+      result.targetLanguage,
+      segment.source,
+      segment.translation,
+      'history'
+    ));
+    return historyItem.id;
+  }, []);
+
+  const updateHistoryEntry = useCallback((id: string, result: TranslationResult) => {
+    const entry = history.find(item => item.id === id);
+    if (!entry) {
+      return;
+    }
+
+    const updated: TranslationHistory = {
+      ...entry,
+      translatedText: result.text,
+      machineFallback: result.chunks.some(chunk => chunk.fallback !== null),
+      segments: TranslationService.getMemorySegments(result)
+    };
+    setHistory(prev => prev.map(item => (item.id === id ? updated : item)));
+    HistoryService.save([updated])
+      .then(() => TranslationMemory.reset())
+      .catch(error => console.warn('Failed to update history entry:', error));
+  }, [history]);
+
+  // Перевод сразу на несколько языков; каждая языковая пара попадает в историю отдельной записью
   const translateText = useCallback(async (
     text: string,
     fromLang: string,
-    toLang: string
-  ): Promise<string> => {
-    setLoading(true);
-    
+    toLangs: string[],
+    { saveToHistory = true, ...options }: TextTranslationOptions = {}
+  ): Promise<TranslationResult[]> => {
+    const controller = startOperation();
+
     try {
-      // Определяем исходный язык, если установлен auto
-      let detectedFromLang = fromLang;
-      if (fromLang === 'auto') {
-        try {
-          detectedFromLang = await TranslationService.detectLanguage(text);
-        } catch (error) {
-          console.warn('Language detection failed, using English as fallback');
-          detectedFromLang = 'en';
-        }
+      // Переводим текст, исходный язык при необходимости определит сервис
+      const results = finishOperation(controller, await TranslationService.translateToMany(text, fromLang, toLangs, {
+        ...options,
+        signal: controller.signal,
+        onProgress: options.onProgress && (progress => {
+          if (!controller.signal.aborted) {
+            options.onProgress?.(progress);
+          }
+        })
+      }));
+      if (!saveToHistory) {
+        return results;
       }
-      
-      // Переводим текст
-      const translatedText = await TranslationService.translateText(text, detectedFromLang, toLang);
-      
-      // Добавляем в историю
-      const historyItem: TranslationHistory = {
-        id: Date.now().toString(),
-        sourceText: text,
-        translatedText,
-        fromLanguage: detectedFromLang,
-        toLanguage: toLang,
-        timestamp: new Date()
-      };
-      
-      setHistory(prev => [historyItem, ...prev.slice(0, 9)]); // Храним только 10 последних переводов
-      
-      return translatedText;
+      return results.map(result => ({ ...result, historyId: addToHistory(text, result, 'text') }));
     } finally {
-      setLoading(false);
+      endOperation(controller);
     }
-  }, []);
+  }, [addToHistory, startOperation, endOperation]);
 
   const translateImage = useCallback(async (
     imageFile: File,
     fromLang: string,
     toLang: string
-  ): Promise<{ extractedText: string; translatedText: string }> => {
-    setLoading(true);
-    
+  ): Promise<{ extractedText: string; result: TranslationResult }> => {
+    const controller = startOperation();
+
     try {
       // Извлекаем текст из изображения
-      const extractedText = await OCRService.extractTextFromImage(imageFile);
-      
+      const extractedText = finishOperation(controller, await OCRService.extractTextFromImage(imageFile, controller.signal, fromLang));
+
       if (!extractedText.trim()) {
         throw new Error('Не удалось извлечь текст из изображения');
       }
 
-      // Определяем язык извлеченного текста
-      let detectedFromLang = fromLang;
-      if (fromLang === 'auto') {
-        try {
-          detectedFromLang = await TranslationService.detectLanguage(extractedText);
-        } catch (error) {
-          console.warn('Language detection failed for image text, using English as fallback');
-          detectedFromLang = 'en';
-        }
-      }
-      
       // Переводим извлеченный текст
-      const translatedText = await TranslationService.translateText(extractedText, detectedFromLang, toLang);
-      
-      // Добавляем в историю
-      const historyItem: TranslationHistory = {
-        id: Date.now().toString(),
-        sourceText: `[IMAGE] ${extractedText}`,
-        translatedText,
-        fromLanguage: detectedFromLang,
-        toLanguage: toLang,
-        timestamp: new Date()
-      };
-      
-      setHistory(prev => [historyItem, ...prev.slice(0, 9)]);
-      
-      return { extractedText, translatedText };
+      const result = finishOperation(controller, await TranslationService.translateText(extractedText, fromLang, toLang, {
+        signal: controller.signal
+      }));
+      const historyId = addToHistory(extractedText, result, 'image');
+
+      return { extractedText, result: { ...result, historyId } };
     } finally {
-      setLoading(false);
+      endOperation(controller);
+    }
+  }, [addToHistory, startOperation, endOperation]);
+
+  const translateDocument = useCallback(async (
+    file: File,
+    fromLang: string,
+    toLang: string,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<DocumentTranslationResult> => {
+    const controller = startOperation();
+
+    try {
+      return finishOperation(controller, await DocumentService.translateDocument(
+        file,
+        fromLang,
+        toLang,
+        (done, total) => {
+          if (!controller.signal.aborted) {
+            onProgress?.(done, total);
+          }
+        },
+        controller.signal
+      ));
+    } finally {
+      endOperation(controller);
     }
+  }, [startOperation, endOperation]);
+
+  // Правка попадает в запись истории; результат мгновенного режима при первой правке получает свою запись
+  const saveEdit = useCallback((updated: TranslationResult): TranslationResult => {
+    if (updated.historyId) {
+      updateHistoryEntry(updated.historyId, updated);
+      return updated;
+    }
+    return { ...updated, historyId: addToHistory(updated.sourceText, updated, 'text') };
+  }, [addToHistory, updateHistoryEntry]);
+
+  // Выбранный вариант фрагмента запоминается в кэше и попадает в запись истории
+  const chooseVariant = useCallback(async (
+    result: TranslationResult,
+    chunkIndex: number,
+    variant: TranslationVariant
+  ): Promise<TranslationResult> => {
+    const updated = await TranslationService.chooseVariant(result, chunkIndex, variant);
+    return updated === result ? result : saveEdit(updated);
+  }, [saveEdit]);
+
+  // Исправленный пользователем фрагмент становится предпочтительным переводом этого сегмента
+  const applyCorrection = useCallback(async (
+    result: TranslationResult,
+    chunkIndex: number,
+    correction: string
+  ): Promise<TranslationResult> => {
+    const updated = await TranslationService.applyCorrection(result, chunkIndex, correction);
+    return updated === result ? result : saveEdit(updated);
+  }, [saveEdit]);
+
+  const requestVariants = useCallback((result: TranslationResult, chunkIndex: number) => (
+    TranslationService.requestVariants(result, chunkIndex)
+  ), []);
+
+  const togglePin = useCallback((id: string) => {
+    const entry = history.find(item => item.id === id);
+    if (!entry) {
+      return;
+    }
+
+    const updated = { ...entry, pinned: !entry.pinned };
+    setHistory(prev => HistoryService.sort(prev.map(item => (item.id === id ? updated : item))));
+    HistoryService.save([updated]).catch(error => console.warn('Failed to update history entry:', error));
+  }, [history]);
+
+  const deleteHistoryEntry = useCallback((id: string) => {
+    setHistory(prev => prev.filter(item => item.id !== id));
+    // Память переводов строится из истории, поэтому после изменения истории строится заново
+    HistoryService.remove(id)
+      .then(() => TranslationMemory.reset())
+      .catch(error => console.warn('Failed to delete history entry:', error));
+  }, []);
+
+  const importHistory = useCallback(async (entries: TranslationHistory[]) => {
+    await HistoryService.save(entries);
+    TranslationMemory.reset();
+    setHistory(prev => HistoryService.sort([...entries, ...prev]));
   }, []);
 
   const clearHistory = useCallback(() => {
-    setHistory([]);
+    setHistory(prev => prev.filter(item => item.pinned));
+    HistoryService.clearUnpinned()
+      .then(() => TranslationMemory.reset())
+      .catch(error => console.warn('Failed to clear history:', error));
   }, []);
+
   return {
     translateText,
     translateImage,
+    translateDocument,
+    cancel,
+    chooseVariant,
+    applyCorrection,
+    requestVariants,
     loading,
     history,
+    togglePin,
+    deleteHistoryEntry,
+    importHistory,
     clearHistory
   };
-};
\ No newline at end of file
+};
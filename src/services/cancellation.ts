@@ -0,0 +1,33 @@
+// Отмена долгих операций: перевода, распознавания и обработки документов
+export class CancelledError extends Error {
+  constructor() {
+    super('Операция отменена');
+    this.name = 'CancelledError';
+  }
+}
+
+export const isCancelled = (error: unknown): boolean => error instanceof CancelledError;
+
+export const throwIfCancelled = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+};
+
+// Завершает ожидание досрочно, если операцию отменили; onCancel освобождает ресурсы
+export const cancellable = <T>(promise: Promise<T>, signal?: AbortSignal, onCancel?: () => void): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+  throwIfCancelled(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = () => {
+      onCancel?.();
+      reject(new CancelledError());
+    };
+    signal.addEventListener('abort', handleAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', handleAbort));
+  });
+};
@@ -0,0 +1,62 @@
+// Общая база IndexedDB приложения. Каждое хранилище создается при обновлении версии
+const DB_NAME = 'venom-translator';
+const DB_VERSION = 3;
+
+export const STORES = {
+  cache: 'cache',
+  history: 'history',
+  dictionaries: 'dictionaries'
+} as const;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const upgradeDatabase = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.cache)) {
+    const store = db.createObjectStore(STORES.cache, { keyPath: 'key' });
+    store.createIndex('lastAccess', 'lastAccess');
+  }
+
+  if (!db.objectStoreNames.contains(STORES.history)) {
+    const store = db.createObjectStore(STORES.history, { keyPath: 'id' });
+    store.createIndex('timestamp', 'timestamp');
+  }
+
+  if (!db.objectStoreNames.contains(STORES.dictionaries)) {
+    db.createObjectStore(STORES.dictionaries, { keyPath: 'id' });
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB не поддерживается в этом браузере'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgradeDatabase(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Неудачное открытие не кэшируем, чтобы можно было попробовать снова
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
@@ -0,0 +1,179 @@
+import { openDatabase, requestToPromise, transactionDone, STORES } from './database';
+import { getLemmaCandidates } from './lemmatization';
+
+// Описание пакета в каталоге public/dictionaries/index.json
+export interface DictionaryPackInfo {
+  id: string;
+  from: string;
+  to: string;
+  version: number;
+  entries: number;
+  file: string;
+}
+
+// Установленный пакет: слово или фраза в нижнем регистре → варианты перевода
+interface DictionaryPack {
+  id: string;
+  from: string;
+  to: string;
+  version: number;
+  entries: Record<string, string[]>;
+  installedAt: number;
+}
+
+export interface InstalledPackInfo {
+  id: string;
+  from: string;
+  to: string;
+  version: number;
+  entries: number;
+  installedAt: Date;
+}
+
+export interface DictionaryLookup {
+  word: string;
+  // Словарная форма, под которой нашлась статья
+  lemma: string;
+  translations: string[];
+}
+
+// Словари по языковым парам: пакеты скачиваются из каталога, хранятся в IndexedDB
+// и загружаются в память только при первом обращении к паре
+export class DictionaryService {
+  private static readonly CATALOG_PATH = 'dictionaries/';
+
+  private static loaded = new Map<string, Promise<Record<string, string[]> | null>>();
+
+  static async getAvailable(): Promise<DictionaryPackInfo[]> {
+    const response = await fetch(`${this.getCatalogUrl()}index.json`);
+    if (!response.ok) {
+      throw new Error(`Каталог словарей недоступен (HTTP ${response.status})`);
+    }
+    const data = await response.json() as { packs: DictionaryPackInfo[] };
+    return data.packs;
+  }
+
+  static async getInstalled(): Promise<InstalledPackInfo[]> {
+    const db = await openDatabase();
+    const packs = await requestToPromise<DictionaryPack[]>(
+      db.transaction(STORES.dictionaries).objectStore(STORES.dictionaries).getAll()
+    );
+    return packs.map(pack => ({
+      id: pack.id,
+      from: pack.from,
+      to: pack.to,
+      version: pack.version,
+      entries: Object.keys(pack.entries).length,
+      installedAt: new Date(pack.installedAt)
+    }));
+  }
+
+  // Установка и обновление: пакет скачивается целиком и заменяет прежнюю версию
+  static async install(info: DictionaryPackInfo): Promise<void> {
+    const response = await fetch(`${this.getCatalogUrl()}${info.file}`);
+    if (!response.ok) {
+      throw new Error(`Не удалось скачать словарь ${info.id} (HTTP ${response.status})`);
+    }
+
+    const data = await response.json() as Omit<DictionaryPack, 'installedAt'>;
+    const pack: DictionaryPack = {
+      id: info.id,
+      from: info.from,
+      to: info.to,
+      version: data.version,
+      entries: this.normalizeEntries(data.entries),
+      installedAt: Date.now()
+    };
+
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.dictionaries, 'readwrite');
+    transaction.objectStore(STORES.dictionaries).put(pack);
+    await transactionDone(transaction);
+    this.loaded.delete(pack.id);
+  }
+
+  static async remove(id: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.dictionaries, 'readwrite');
+    transaction.objectStore(STORES.dictionaries).delete(id);
+    await transactionDone(transaction);
+    this.loaded.delete(id);
+  }
+
+  // Словарная статья для слова: сначала точная форма, затем возможные начальные формы
+  static async lookupWord(word: string, fromLang: string, toLang: string): Promise<DictionaryLookup | null> {
+    const entries = await this.getEntries(fromLang, toLang);
+    if (!entries) {
+      return null;
+    }
+
+    for (const lemma of getLemmaCandidates(word.trim(), fromLang)) {
+      const translations = entries[lemma];
+      if (translations?.length) {
+        return { word, lemma, translations };
+      }
+    }
+    return null;
+  }
+
+  // Перевод короткого текста целиком: фраза из словаря или одно слово.
+  // Знаки препинания по краям сохраняются, регистр первой буквы — тоже
+  static async translate(text: string, fromLang: string, toLang: string): Promise<string | null> {
+    const [, prefix, core, suffix] = text.match(/^(\P{L}*)([\s\S]*?)(\P{L}*)$/u) ?? [];
+    if (!core) {
+      return null;
+    }
+
+    const entries = await this.getEntries(fromLang, toLang);
+    if (!entries) {
+      return null;
+    }
+
+    const phrase = entries[core.toLowerCase().replace(/\s+/g, ' ')];
+    const translation = phrase?.[0]
+      ?? (/^\p{L}[\p{L}\p{M}'’-]*$/u.test(core) ? (await this.lookupWord(core, fromLang, toLang))?.translations[0] : undefined);
+    if (!translation) {
+      return null;
+    }
+
+    const cased = core[0] !== core[0].toLowerCase()
+      ? translation.charAt(0).toUpperCase() + translation.slice(1)
+      : translation;
+    return prefix + cased + suffix;
+  }
+
+  private static getEntries(fromLang: string, toLang: string): Promise<Record<string, string[]> | null> {
+    const id = `${fromLang}-${toLang}`;
+    let entries = this.loaded.get(id);
+    if (!entries) {
+      entries = this.loadPack(id);
+      this.loaded.set(id, entries);
+    }
+    return entries;
+  }
+
+  private static async loadPack(id: string): Promise<Record<string, string[]> | null> {
+    try {
+      const db = await openDatabase();
+      const pack = await requestToPromise<DictionaryPack | undefined>(
+        db.transaction(STORES.dictionaries).objectStore(STORES.dictionaries).get(id)
+      );
+      return pack?.entries ?? null;
+    } catch (error) {
+      console.warn(`Failed to load dictionary ${id}:`, error);
+      this.loaded.delete(id);
+      return null;
+    }
+  }
+
+  private static normalizeEntries(entries: Record<string, string[] | string>): Record<string, string[]> {
+    return Object.fromEntries(Object.entries(entries).map(([word, translations]) => [
+      word.toLowerCase(),
+      Array.isArray(translations) ? translations : [translations]
+    ]));
+  }
+
+  private static getCatalogUrl(): string {
+    return `${import.meta.env.BASE_URL}${this.CATALOG_PATH}`;
+  }
+}
@@ -0,0 +1,238 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentFormat, parseDocument } from './documentParsers';
+
+// «Перевод», по которому легко проверить, какие части документа ушли переводчику
+const translate = (segments: string[]) => segments.map(segment => `<${segment.toUpperCase()}>`);
+
+const identity = (content: string, format: DocumentFormat) => {
+  const document = parseDocument(content, format);
+  return document.rebuild(document.segments);
+};
+
+describe('parseDocument', () => {
+  describe('txt', () => {
+    it('переводит абзацы целиком и сохраняет пустые строки между ними', () => {
+      const content = 'First line\nsecond line.\n\n  \n\nNext paragraph\n';
+      const document = parseDocument(content, 'txt');
+
+      expect(document.segments).toEqual(['First line\nsecond line.', 'Next paragraph']);
+      expect(document.rebuild(document.segments)).toBe(content);
+    });
+  });
+
+  describe('md', () => {
+    const content = [
+      '---',
+      'title: Guide',
+      '---',
+      '# Getting started',
+      '',
+      '> Read this first',
+      '- [ ] Install the app',
+      '1. Open **settings**',
+      '',
+      '```bash',
+      'npm install',
+      '```',
+      '',
+      '| Name | Value |',
+      '|------|:-----:|',
+      '| Size | Large |',
+      '',
+      '---',
+      '<br>',
+      '[docs]: https://example.com',
+      'Last line without newline'
+    ].join('\n');
+
+    it('собирает документ без изменений при тождественном переводе', () => {
+      expect(identity(content, 'md')).toBe(content);
+    });
+
+    it('переводит только текст, оставляя разметку, код и шапку', () => {
+      const document = parseDocument(content, 'md');
+
+      expect(document.segments).toEqual([
+        'Getting started',
+        'Read this first',
+        'Install the app',
+        'Open **settings**',
+        'Name',
+        'Value',
+        'Size',
+        'Large',
+        'Last line without newline'
+      ]);
+
+      const rebuilt = document.rebuild(translate(document.segments));
+      expect(rebuilt).toContain('---\ntitle: Guide\n---\n# <GETTING STARTED>\n');
+      expect(rebuilt).toContain('> <READ THIS FIRST>\n- [ ] <INSTALL THE APP>\n1. <OPEN **SETTINGS**>\n');
+      expect(rebuilt).toContain('| <NAME> | <VALUE> |\n|------|:-----:|\n');
+      expect(rebuilt).toContain('```bash\nnpm install\n```');
+    });
+
+    it('не выходит из блока кода на более короткой ограде', () => {
+      const document = parseDocument('````\n```\nnot text\n```\n````\nText\n', 'md');
+
+      expect(document.segments).toEqual(['Text']);
+    });
+  });
+
+  describe('srt', () => {
+    const content = [
+      '1',
+      '00:00:01,000 --> 00:00:03,500',
+      'Hello there!',
+      '',
+      '2',
+      '00:00:04,000 --> 00:00:06,000',
+      '- Who are you?',
+      '- A friend.',
+      '',
+      '3',
+      '00:01:00,250 --> 00:01:02,999',
+      '...',
+      '',
+      '4',
+      '01:00:00,000 --> 01:00:01,000',
+      'Bye'
+    ].join('\n');
+
+    it('собирает субтитры без изменений при тождественном переводе', () => {
+      expect(identity(content, 'srt')).toBe(content);
+      expect(identity(`${content}\n`, 'srt')).toBe(`${content}\n`);
+    });
+
+    it('переводит реплики, не трогая номера и таймкоды', () => {
+      const document = parseDocument(content, 'srt');
+      const rebuilt = document.rebuild(translate(document.segments));
+
+      expect(document.segments).toEqual(['Hello there!', '- Who are you?\n- A friend.', 'Bye']);
+      expect(rebuilt.split('\n\n')).toEqual([
+        '1\n00:00:01,000 --> 00:00:03,500\n<HELLO THERE!>',
+        '2\n00:00:04,000 --> 00:00:06,000\n<- WHO ARE YOU?\n- A FRIEND.>',
+        '3\n00:01:00,250 --> 00:01:02,999\n...',
+        '4\n01:00:00,000 --> 01:00:01,000\n<BYE>'
+      ]);
+    });
+
+    it('сохраняет переводы строк Windows', () => {
+      const windows = content.replace(/\n/g, '\r\n');
+
+      expect(identity(windows, 'srt')).toBe(windows);
+    });
+  });
+
+  describe('json', () => {
+    const content = `${JSON.stringify({
+      title: 'Welcome',
+      count: 3,
+      enabled: true,
+      link: 'https://example.com',
+      nested: { items: ['First item', '42', null], path: '/home' },
+      empty: ''
+    }, null, 4)}\n`;
+
+    it('собирает файл без изменений при тождественном переводе', () => {
+      expect(identity(content, 'json')).toBe(content);
+    });
+
+    it('переводит только строки с буквами, кроме ссылок и путей', () => {
+      const document = parseDocument(content, 'json');
+      const rebuilt = JSON.parse(document.rebuild(translate(document.segments)));
+
+      expect(document.segments).toEqual(['Welcome', 'First item']);
+      expect(rebuilt).toEqual({
+        title: '<WELCOME>',
+        count: 3,
+        enabled: true,
+        link: 'https://example.com',
+        nested: { items: ['<FIRST ITEM>', '42', null], path: '/home' },
+        empty: ''
+      });
+    });
+  });
+
+  describe('po', () => {
+    const content = [
+      'msgid ""',
+      'msgstr ""',
+      '"Language: ru\\n"',
+      '"Plural-Forms: nplurals=3; plural=(n%10==1 ? 0 : 1);\\n"',
+      '',
+      '#: src/app.ts:10',
+      'msgid "Say \\"hello\\"\\tnow"',
+      'msgstr ""',
+      '',
+      '#, c-format',
+      'msgid "One file"',
+      'msgid_plural "%d files"',
+      'msgstr[0] ""',
+      'msgstr[1] ""',
+      'msgstr[2] ""',
+      '',
+      'msgid ""',
+      '"Long text "',
+      '"on two lines\\n"',
+      'msgstr ""',
+      '',
+      'msgid "Done"',
+      'msgstr "Готово"',
+      ''
+    ].join('\n');
+
+    it('отдает переводчику строки без экранирования', () => {
+      expect(parseDocument(content, 'po').segments).toEqual([
+        'Say "hello"\tnow',
+        'One file',
+        '%d files',
+        'Long text on two lines\n'
+      ]);
+    });
+
+    it('заполняет msgstr, помечает записи fuzzy и не трогает заголовок и готовые переводы', () => {
+      const document = parseDocument(content, 'po');
+
+      expect(document.rebuild(document.segments)).toBe([
+        'msgid ""',
+        'msgstr ""',
+        '"Language: ru\\n"',
+        '"Plural-Forms: nplurals=3; plural=(n%10==1 ? 0 : 1);\\n"',
+        '',
+        '#: src/app.ts:10',
+        '#, fuzzy',
+        'msgid "Say \\"hello\\"\\tnow"',
+        'msgstr "Say \\"hello\\"\\tnow"',
+        '',
+        '#, c-format, fuzzy',
+        'msgid "One file"',
+        'msgid_plural "%d files"',
+        'msgstr[0] "One file"',
+        'msgstr[1] "%d files"',
+        'msgstr[2] "%d files"',
+        '',
+        '#, fuzzy',
+        'msgid ""',
+        '"Long text "',
+        '"on two lines\\n"',
+        'msgstr "Long text on two lines\\n"',
+        '',
+        'msgid "Done"',
+        'msgstr "Готово"',
+        ''
+      ].join('\n'));
+    });
+
+    it('экранирует кавычки и обратную косую черту в переводе', () => {
+      const document = parseDocument('msgid "Path"\nmsgstr ""\n', 'po');
+
+      expect(document.rebuild(['Путь "C:\\temp"'])).toBe('#, fuzzy\nmsgid "Path"\nmsgstr "Путь \\"C:\\\\temp\\""\n');
+    });
+
+    it('сохраняет переводы строк Windows', () => {
+      const document = parseDocument('msgid "Done"\r\nmsgstr "Готово"\r\n\r\nmsgid "Open"\r\nmsgstr ""\r\n', 'po');
+
+      expect(document.rebuild(['Открыть'])).toBe('msgid "Done"\r\nmsgstr "Готово"\r\n\r\n#, fuzzy\r\nmsgid "Open"\r\nmsgstr "Открыть"\r\n');
+    });
+  });
+});
@@ -0,0 +1,312 @@
+// Разбор документов на переводимые сегменты с сохранением исходной структуры
+export type DocumentFormat = 'txt' | 'md' | 'srt' | 'json' | 'po';
+
+export interface ParsedDocument {
+  format: DocumentFormat;
+  segments: string[];
+  rebuild(translations: string[]): string;
+}
+
+type DocumentPart = string | number | ((translations: string[]) => string);
+
+// Собирает документ из неизменяемых кусков и ссылок на переводимые сегменты
+class DocumentBuilder {
+  private parts: DocumentPart[] = [];
+  readonly segments: string[] = [];
+
+  literal(text: string): void {
+    if (text) {
+      this.parts.push(text);
+    }
+  }
+
+  // Пробелы по краям и текст без букв переводчику не отправляем
+  segment(text: string): void {
+    const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    const [, leading, content, trailing] = match;
+
+    this.literal(leading);
+    if (/\p{L}/u.test(content)) {
+      this.parts.push(this.segments.length);
+      this.segments.push(content);
+    } else {
+      this.literal(content);
+    }
+    this.literal(trailing);
+  }
+
+  // Для форматов, где итоговый текст зависит от перевода сразу нескольких сегментов
+  custom(render: (translations: string[]) => string): void {
+    this.parts.push(render);
+  }
+
+  addSegment(text: string): number {
+    this.segments.push(text);
+    return this.segments.length - 1;
+  }
+
+  build(format: DocumentFormat): ParsedDocument {
+    const parts = this.parts;
+    return {
+      format,
+      segments: this.segments,
+      rebuild: (translations) => parts
+        .map(part => {
+          if (typeof part === 'number') return translations[part] ?? this.segments[part];
+          if (typeof part === 'function') return part(translations);
+          return part;
+        })
+        .join('')
+    };
+  }
+}
+
+// Форматы, которые разбираются по \n, возвращают переводы строк Windows, если они были в файле
+const keepLineEndings = (content: string, document: ParsedDocument): ParsedDocument =>
+  content.includes('\r\n')
+    ? { ...document, rebuild: translations => document.rebuild(translations).replace(/\r?\n/g, '\r\n') }
+    : document;
+
+// Разделяет текст на строки, сохраняя сами переводы строк
+const splitLines = (content: string): string[] => content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+
+const parseText = (content: string): ParsedDocument => {
+  const builder = new DocumentBuilder();
+
+  // Абзацы переводим целиком, пустые строки между ними сохраняем как есть
+  content.split(/(\n[ \t]*\n(?:[ \t]*\n)*)/).forEach((part, index) => {
+    if (index % 2 === 1) {
+      builder.literal(part);
+    } else {
+      builder.segment(part);
+    }
+  });
+
+  return builder.build('txt');
+};
+
+const parseMarkdown = (content: string): ParsedDocument => {
+  const builder = new DocumentBuilder();
+  const lines = splitLines(content);
+  let fence: string | null = null;
+  let inFrontMatter = lines[0]?.trim() === '---';
+
+  lines.forEach((rawLine, index) => {
+    const newline = rawLine.endsWith('\n') ? '\n' : '';
+    const line = rawLine.slice(0, rawLine.length - newline.length);
+    const trimmed = line.trim();
+
+    // YAML-шапка и блоки кода переносятся без изменений
+    if (inFrontMatter) {
+      builder.literal(rawLine);
+      if (index > 0 && trimmed === '---') {
+        inFrontMatter = false;
+      }
+      return;
+    }
+
+    const fenceMatch = trimmed.match(/^(```+|~~~+)/);
+    if (fence) {
+      builder.literal(rawLine);
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      return;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      builder.literal(rawLine);
+      return;
+    }
+
+    // Пустые строки, разделители, HTML и ссылки-сноски не переводим
+    if (!trimmed || /^([-*_]\s*){3,}$/.test(trimmed) || /^<[^>]+>$/.test(trimmed) || /^\[[^\]]+\]:\s/.test(trimmed)) {
+      builder.literal(rawLine);
+      return;
+    }
+
+    // Таблицы: переводим содержимое ячеек, строку-разделитель оставляем
+    if (trimmed.startsWith('|')) {
+      if (/^\|?[\s:|-]+\|?$/.test(trimmed)) {
+        builder.literal(rawLine);
+      } else {
+        line.split(/(\|)/).forEach(cell => (cell === '|' ? builder.literal(cell) : builder.segment(cell)));
+        builder.literal(newline);
+      }
+      return;
+    }
+
+    // Синтаксис начала строки: заголовки, цитаты, списки и чекбоксы
+    const prefix = line.match(/^(\s*(?:(?:#{1,6}|>|[-*+]|\d+[.)])\s+)*(?:\[[ xX]\]\s+)?)/)?.[0] ?? '';
+    builder.literal(prefix);
+    builder.segment(line.slice(prefix.length));
+    builder.literal(newline);
+  });
+
+  return builder.build('md');
+};
+
+const parseSubtitles = (content: string): ParsedDocument => {
+  const builder = new DocumentBuilder();
+  const normalized = content.replace(/\r\n/g, '\n');
+
+  normalized.split(/(\n{2,})/).forEach((block, index) => {
+    if (index % 2 === 1) {
+      builder.literal(block);
+      return;
+    }
+
+    // Номер и таймкод оставляем, переводим только реплику
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) {
+      builder.literal(block);
+      return;
+    }
+
+    builder.literal(lines.slice(0, timingIndex + 1).join('\n'));
+    const text = lines.slice(timingIndex + 1).join('\n');
+    if (text) {
+      builder.literal('\n');
+      builder.segment(text);
+    }
+  });
+
+  return keepLineEndings(content, builder.build('srt'));
+};
+
+const parseJson = (content: string): ParsedDocument => {
+  const builder = new DocumentBuilder();
+  const data = JSON.parse(content);
+  const indent = content.match(/\n([ \t]+)"/)?.[1] ?? '  ';
+
+  // Ключи сохраняются, переводятся только строковые значения
+  const collect = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return /\p{L}/u.test(value) && !/^(https?:\/\/|\/|#)/.test(value)
+        ? { segmentIndex: builder.addSegment(value) }
+        : value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(collect);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, collect(item)]));
+    }
+    return value;
+  };
+
+  const template = collect(data);
+  const isSegmentRef = (value: unknown): value is { segmentIndex: number } =>
+    typeof value === 'object' && value !== null && 'segmentIndex' in value;
+
+  builder.custom(translations => {
+    const fill = (value: unknown): unknown => {
+      if (isSegmentRef(value)) return translations[value.segmentIndex];
+      if (Array.isArray(value)) return value.map(fill);
+      if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fill(item)]));
+      }
+      return value;
+    };
+    return JSON.stringify(fill(template), null, indent) + (content.endsWith('\n') ? '\n' : '');
+  });
+
+  return builder.build('json');
+};
+
+const unescapePo = (value: string) => value.replace(/\\(.)/g, (_, char: string) => (
+  char === 'n' ? '\n' : char === 't' ? '\t' : char
+));
+
+const escapePo = (value: string) => value
+  .replace(/\\/g, '\\\\')
+  .replace(/"/g, '\\"')
+  .replace(/\t/g, '\\t')
+  .replace(/\n/g, '\\n');
+
+const parsePo = (content: string): ParsedDocument => {
+  const builder = new DocumentBuilder();
+  const normalized = content.replace(/\r\n/g, '\n');
+
+  normalized.split(/(\n{2,})/).forEach((rawBlock, index) => {
+    if (index % 2 === 1) {
+      builder.literal(rawBlock);
+      return;
+    }
+
+    // Перевод строки в конце файла переносим отдельно от записи
+    const trailing = rawBlock.match(/\n*$/)![0];
+    const block = rawBlock.slice(0, rawBlock.length - trailing.length);
+
+    // Собираем значения полей с учетом многострочных строк в кавычках
+    const fields = new Map<string, string>();
+    const lines = block.split('\n');
+    let currentField: string | null = null;
+    let firstMsgstrLine = -1;
+
+    lines.forEach((line, lineIndex) => {
+      const keywordMatch = line.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+"(.*)"\s*$/);
+      const continuationMatch = line.match(/^"(.*)"\s*$/);
+
+      if (keywordMatch) {
+        currentField = keywordMatch[1];
+        fields.set(currentField, unescapePo(keywordMatch[2]));
+        if (currentField.startsWith('msgstr') && firstMsgstrLine === -1) {
+          firstMsgstrLine = lineIndex;
+        }
+      } else if (continuationMatch && currentField) {
+        fields.set(currentField, fields.get(currentField)! + unescapePo(continuationMatch[1]));
+      } else {
+        currentField = null;
+      }
+    });
+
+    const msgid = fields.get('msgid');
+    const msgidPlural = fields.get('msgid_plural');
+    const alreadyTranslated = [...fields.entries()].some(([key, value]) => key.startsWith('msgstr') && value);
+
+    // Заголовок каталога и уже переведенные записи не трогаем
+    if (!msgid || alreadyTranslated || firstMsgstrLine === -1 || !/\p{L}/u.test(msgid)) {
+      builder.literal(rawBlock);
+      return;
+    }
+
+    const msgidIndex = builder.addSegment(msgid);
+    const pluralIndex = msgidPlural ? builder.addSegment(msgidPlural) : -1;
+    const pluralForms = [...fields.keys()].filter(key => key.startsWith('msgstr[')).length;
+    const head = lines.slice(0, firstMsgstrLine);
+
+    // Машинный перевод помечаем флагом fuzzy, чтобы его проверил переводчик
+    const flagsIndex = head.findIndex(line => line.startsWith('#,'));
+    if (flagsIndex === -1) {
+      const insertAt = head.findIndex(line => !line.startsWith('#'));
+      head.splice(insertAt === -1 ? head.length : insertAt, 0, '#, fuzzy');
+    } else if (!head[flagsIndex].includes('fuzzy')) {
+      head[flagsIndex] = `${head[flagsIndex]}, fuzzy`;
+    }
+
+    builder.custom(translations => {
+      const msgstrLines = msgidPlural
+        ? Array.from({ length: Math.max(pluralForms, 2) }, (_, form) =>
+            `msgstr[${form}] "${escapePo(translations[form === 0 ? msgidIndex : pluralIndex])}"`)
+        : [`msgstr "${escapePo(translations[msgidIndex])}"`];
+      return [...head, ...msgstrLines].join('\n');
+    });
+    builder.literal(trailing);
+  });
+
+  return keepLineEndings(content, builder.build('po'));
+};
+
+const parsers: Record<DocumentFormat, (content: string) => ParsedDocument> = {
+  txt: parseText,
+  md: parseMarkdown,
+  srt: parseSubtitles,
+  json: parseJson,
+  po: parsePo
+};
+
+export const documentFormats = Object.keys(parsers) as DocumentFormat[];
+
+export const parseDocument = (content: string, format: DocumentFormat): ParsedDocument => parsers[format](content);
@@ -0,0 +1,97 @@
+import { TranslationService } from './translationService';
+import { FileService, DownloadableFile } from './fileService';
+import { DocumentFormat, documentFormats, parseDocument } from './documentParsers';
+import { TextFormat } from './markupProtection';
+
+export interface DocumentTranslationResult {
+  file: DownloadableFile;
+  format: DocumentFormat;
+  sourceLanguage: string;
+  segments: number;
+  untranslatedSegments: number;
+}
+
+const mimeTypes: Record<DocumentFormat, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  srt: 'application/x-subrip',
+  json: 'application/json',
+  po: 'text/x-gettext-translation'
+};
+
+// Какую разметку защищать внутри сегментов: инлайн-код и ссылки Markdown,
+// теги субтитров, ICU-сообщения в JSON-ресурсах
+const segmentFormats: Record<DocumentFormat, TextFormat> = {
+  txt: 'plain',
+  md: 'markdown',
+  srt: 'html',
+  json: 'icu',
+  po: 'plain'
+};
+
+export class DocumentService {
+  static readonly acceptedExtensions = [...documentFormats, 'markdown', 'pot'].map(extension => `.${extension}`).join(',');
+
+  static detectFormat(fileName: string): DocumentFormat | null {
+    const extension = FileService.getExtension(fileName);
+    if (extension === 'markdown') return 'md';
+    if (extension === 'pot') return 'po';
+    return documentFormats.find(format => format === extension) ?? null;
+  }
+
+  static async translateDocument(
+    file: File,
+    fromLang: string,
+    toLang: string,
+    onProgress?: (done: number, total: number) => void,
+    signal?: AbortSignal
+  ): Promise<DocumentTranslationResult> {
+    const format = this.detectFormat(file.name);
+    if (!format) {
+      throw new Error(`Формат файла ${file.name} не поддерживается`);
+    }
+
+    const content = await FileService.readText(file);
+    let document;
+    try {
+      document = parseDocument(content, format);
+    } catch (error) {
+      throw new Error(`Не удалось разобрать файл: ${(error as Error).message}`);
+    }
+
+    // Язык определяем один раз по всему документу, а не по каждому сегменту
+    const sourceLanguage = fromLang === 'auto' && document.segments.length > 0
+      ? (await TranslationService.detectLanguage(document.segments.join('\n'), signal)).language
+      : fromLang;
+
+    // Сегменты переводятся параллельно, частоту запросов ограничивает планировщик
+    let done = 0;
+    onProgress?.(0, document.segments.length);
+
+    const results = await Promise.all(document.segments.map(async segment => {
+      const result = await TranslationService.translateText(segment, sourceLanguage, toLang, {
+        format: segmentFormats[format],
+        signal
+      });
+      onProgress?.(++done, document.segments.length);
+      return result;
+    }));
+
+    const translations = results.map(result => result.text);
+    const untranslatedSegments = results.filter(result => result.untranslatedChunks > 0).length;
+
+    const baseName = file.name.slice(0, file.name.length - FileService.getExtension(file.name).length - 1);
+
+    return {
+      file: {
+        content: document.rebuild(translations),
+        fileName: `${baseName}.${toLang}.${FileService.getExtension(file.name)}`,
+        mimeType: mimeTypes[format]
+      },
+      format,
+      sourceLanguage,
+      segments: document.segments.length,
+      untranslatedSegments
+    };
+  }
+}
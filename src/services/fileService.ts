@@ -0,0 +1,36 @@
+export interface DownloadableFile {
+  content: string;
+  fileName: string;
+  mimeType: string;
+}
+
+export class FileService {
+  static download({ content, fileName, mimeType }: DownloadableFile): void {
+    const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    // Даем браузеру начать загрузку до освобождения ссылки
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  static readText(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error(`Не удалось прочитать файл ${file.name}`));
+      reader.readAsText(file, 'utf-8');
+    });
+  }
+
+  static getExtension(fileName: string): string {
+    const dotIndex = fileName.lastIndexOf('.');
+    return dotIndex === -1 ? '' : fileName.slice(dotIndex + 1).toLowerCase();
+  }
+}
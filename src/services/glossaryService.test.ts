@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { GlossaryRule, GlossaryService } from './glossaryService';
+import { Placeholder, restorePlaceholders } from './placeholders';
+import { protectMarkup } from './markupProtection';
+
+const rule = (term: string, translation: string, overrides: Partial<GlossaryRule> = {}): GlossaryRule => ({
+  id: term,
+  fromLang: 'en',
+  toLang: 'ru',
+  term,
+  translation,
+  caseSensitive: false,
+  wholeWord: true,
+  enabled: true,
+  ...overrides
+});
+
+describe('GlossaryService.mask', () => {
+  it('заменяет термины маркерами и восстанавливает перевод термина', () => {
+    const placeholders: Placeholder[] = [];
+
+    const { text } = GlossaryService.mask('Open the Dashboard now', [rule('dashboard', 'Панель')], placeholders);
+
+    expect(text).toBe('Open the [[0]] now');
+    expect(restorePlaceholders(text, placeholders).text).toBe('Open the Панель now');
+  });
+
+  it('не трогает маркеры, уже поставленные защитой разметки', () => {
+    const placeholders: Placeholder[] = [];
+    const masked = protectMarkup('<b>Step</b> 1 of <i>2</i>', 'html', placeholders);
+
+    const { text } = GlossaryService.mask(masked, [rule('1', 'один'), rule('2', 'два', { wholeWord: false })], placeholders);
+
+    expect(restorePlaceholders(text, placeholders).text).toBe('<b>Step</b> один of <i>два</i>');
+  });
+
+  it('не находит короткий термин внутри маркера длинного', () => {
+    const placeholders: Placeholder[] = [];
+    const rules = [rule('New York Times', ''), rule('New York', 'Нью-Йорк')];
+
+    const { text, placeholders: hits } = GlossaryService.mask('New York Times in New York', rules, placeholders);
+
+    expect(hits.map(hit => hit.value)).toEqual(['New York Times', 'Нью-Йорк']);
+    expect(restorePlaceholders(text, placeholders).text).toBe('New York Times in Нью-Йорк');
+  });
+});
@@ -0,0 +1,133 @@
+import { Placeholder, createPlaceholderToken, replaceOutsidePlaceholders } from './placeholders';
+
+export interface GlossaryRule {
+  id: string;
+  // '*' — правило действует для любого языка
+  fromLang: string;
+  toLang: string;
+  term: string;
+  // Пустой перевод означает, что термин не переводится
+  translation: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  enabled: boolean;
+}
+
+export interface GlossaryHit {
+  ruleId: string;
+  term: string;
+  replacement: string;
+  count: number;
+}
+
+interface GlossaryPlaceholder extends Placeholder {
+  ruleId: string;
+}
+
+export interface MaskedGlossaryText {
+  text: string;
+  placeholders: GlossaryPlaceholder[];
+}
+
+export const ANY_LANGUAGE = '*';
+
+// Пользовательский глоссарий: термины защищаются маркерами до отправки провайдеру
+export class GlossaryService {
+  private static readonly STORAGE_KEY = 'venom-translator:glossary';
+
+  static getRules(): GlossaryRule[] {
+    try {
+      const raw = localStorage.getItem(this.STORAGE_KEY);
+      return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      console.warn('Failed to load glossary:', error);
+      return [];
+    }
+  }
+
+  static saveRules(rules: GlossaryRule[]): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(rules));
+    } catch (error) {
+      console.warn('Failed to save glossary:', error);
+    }
+  }
+
+  static createRule(rule: Omit<GlossaryRule, 'id' | 'enabled'>): GlossaryRule {
+    return {
+      ...rule,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      enabled: true
+    };
+  }
+
+  static getRulesFor(fromLang: string, toLang: string): GlossaryRule[] {
+    const matchesLang = (ruleLang: string, lang: string) => ruleLang === ANY_LANGUAGE || ruleLang === lang;
+
+    return this.getRules()
+      .filter(rule => rule.enabled && rule.term.trim())
+      .filter(rule => matchesLang(rule.fromLang, fromLang) && matchesLang(rule.toLang, toLang))
+      // Длинные термины первыми, чтобы "New York Times" не разбился на "New York"
+      .sort((a, b) => b.term.length - a.term.length);
+  }
+
+  // Заменяет найденные термины маркерами; маркеры добавляются к общему списку.
+  // Уже поставленные маркеры не трогаем: термин «1» иначе испортил бы маркер [[1]]
+  static mask(text: string, rules: GlossaryRule[], placeholders: Placeholder[]): MaskedGlossaryText {
+    const glossaryPlaceholders: GlossaryPlaceholder[] = [];
+    let masked = text;
+
+    for (const rule of rules) {
+      masked = replaceOutsidePlaceholders(masked, this.createPattern(rule), (match) => {
+        const placeholder: GlossaryPlaceholder = {
+          token: createPlaceholderToken(placeholders.length),
+          // Без перевода сохраняем термин в том виде, в каком он встретился в тексте
+          value: rule.translation || match,
+          ruleId: rule.id
+        };
+        placeholders.push(placeholder);
+        glossaryPlaceholders.push(placeholder);
+        return placeholder.token;
+      });
+    }
+
+    return { text: masked, placeholders: glossaryPlaceholders };
+  }
+
+  // Отчет о сработавших правилах по фактически восстановленным маркерам
+  static collectHits(restored: Placeholder[], rules: GlossaryRule[]): GlossaryHit[] {
+    const hits = new Map<string, GlossaryHit>();
+
+    for (const placeholder of restored) {
+      const ruleId = (placeholder as Partial<GlossaryPlaceholder>).ruleId;
+      const rule = rules.find(item => item.id === ruleId);
+      if (!rule) {
+        continue;
+      }
+
+      const hit = hits.get(rule.id) ?? { ruleId: rule.id, term: rule.term, replacement: rule.translation || rule.term, count: 0 };
+      hit.count++;
+      hits.set(rule.id, hit);
+    }
+
+    return [...hits.values()];
+  }
+
+  static mergeHits(hits: GlossaryHit[]): GlossaryHit[] {
+    const merged = new Map<string, GlossaryHit>();
+    hits.forEach(hit => {
+      const existing = merged.get(hit.ruleId);
+      merged.set(hit.ruleId, existing ? { ...existing, count: existing.count + hit.count } : { ...hit });
+    });
+    return [...merged.values()];
+  }
+
+  private static createPattern(rule: GlossaryRule): RegExp {
+    const escaped = rule.term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const source = rule.wholeWord
+      ? `(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`
+      : escaped;
+
+    return new RegExp(source, rule.caseSensitive ? 'gu' : 'giu');
+  }
+}
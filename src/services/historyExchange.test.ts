@@ -0,0 +1,123 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { ExchangeFormat, HistoryExchange } from './historyExchange';
+import { TranslationHistory } from './historyService';
+
+const entry = (overrides: Partial<TranslationHistory> = {}): TranslationHistory => ({
+  id: 'id',
+  sourceText: 'Hello',
+  translatedText: 'Привет',
+  fromLanguage: 'en',
+  toLanguage: 'ru',
+  timestamp: new Date('2024-05-01T10:20:30Z'),
+  sourceType: 'text',
+  pinned: false,
+  ...overrides
+});
+
+const tricky = [
+  entry({ sourceText: 'Say "hi", then leave', translatedText: 'Скажи «привет», потом уходи' }),
+  entry({ sourceText: 'Line one\nLine two\r\nLine three', translatedText: 'Строка, одна\nи "вторая"', pinned: true }),
+  entry({ sourceText: '  padded  ', translatedText: '<b>A & B</b> \'q\'', sourceType: 'image', fromLanguage: 'de' })
+];
+
+// Импортированные записи получают новые id
+const withoutIds = (entries: TranslationHistory[]) => entries.map(item => ({ ...item, id: '' }));
+
+describe('HistoryExchange', () => {
+  it.each<ExchangeFormat>(['json', 'csv', 'tmx'])('сохраняет записи без потерь при экспорте и импорте %s', (format) => {
+    const { content } = HistoryExchange.export(tricky, format);
+
+    const result = HistoryExchange.import(content, format, []);
+
+    expect(withoutIds(result.entries)).toEqual(withoutIds(tricky));
+    expect(result).toMatchObject({ duplicates: 0, invalid: 0 });
+  });
+
+  it('пропускает записи, которые уже есть в истории или повторяются в файле', () => {
+    const { content } = HistoryExchange.export([entry(), entry({ sourceText: 'Bye', translatedText: 'Пока' }), entry()], 'csv');
+
+    const result = HistoryExchange.import(content, 'csv', [entry({ sourceText: 'Bye', translatedText: 'Пока' })]);
+
+    expect(result.entries.map(item => item.sourceText)).toEqual(['Hello']);
+    expect(result.duplicates).toBe(2);
+  });
+
+  describe('CSV', () => {
+    it('читает файл с BOM, другим порядком колонок и переводами строк LF', () => {
+      const content = '\uFEFFsource_text,translated_text,source_language,target_language\n"a, b",c,en-US,ru\n';
+
+      const result = HistoryExchange.import(content, 'csv', []);
+
+      expect(result.entries).toHaveLength(1);
+      expect(result.entries[0]).toMatchObject({ sourceText: 'a, b', translatedText: 'c', fromLanguage: 'en', toLanguage: 'ru' });
+    });
+
+    it('считает некорректными строки с неизвестным языком или пустым текстом', () => {
+      const content = [
+        'source_language,target_language,source_text,translated_text',
+        'xx,ru,Hello,Привет',
+        'en,ru,,Привет',
+        'en,ru,Hello,   ',
+        '',
+        'en,ru,Hello,Привет'
+      ].join('\r\n');
+
+      const result = HistoryExchange.import(content, 'csv', []);
+
+      expect(result.entries).toHaveLength(1);
+      expect(result.invalid).toBe(3);
+    });
+
+    it('подставляет текущее время вместо некорректной даты', () => {
+      const content = 'source_language,target_language,source_text,translated_text,timestamp\nen,ru,Hello,Привет,yesterday';
+
+      const [imported] = HistoryExchange.import(content, 'csv', []).entries;
+
+      expect(isNaN(imported.timestamp.getTime())).toBe(false);
+    });
+  });
+
+  describe('TMX', () => {
+    it('превращает каждый перевод в блоке в отдельную запись', () => {
+      const content = `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header srclang="en-GB" creationtool="test" segtype="sentence" o-tmf="test" adminlang="en" datatype="plaintext"/>
+  <body>
+    <tu>
+      <tuv xml:lang="de"><seg>Hallo</seg></tuv>
+      <tuv xml:lang="en-GB"><seg>Hello</seg></tuv>
+      <tuv xml:lang="ru"><seg>Привет</seg></tuv>
+    </tu>
+  </body>
+</tmx>`;
+
+      const result = HistoryExchange.import(content, 'tmx', []);
+
+      expect(result.entries.map(({ fromLanguage, toLanguage, sourceText, translatedText }) =>
+        [fromLanguage, toLanguage, sourceText, translatedText]
+      )).toEqual([
+        ['en', 'de', 'Hello', 'Hallo'],
+        ['en', 'ru', 'Hello', 'Привет']
+      ]);
+    });
+
+    it('сообщает о поврежденном файле', () => {
+      const content = '<tmx version="1.4"><body><tu><tuv xml:lang="en"><seg>Hello</seg></tu></body></tmx>';
+
+      expect(() => HistoryExchange.import(content, 'tmx', [])).toThrow('Некорректный TMX-файл');
+    });
+
+    it('возвращает пустой результат для файла без блоков перевода', () => {
+      const content = '<tmx version="1.4"><header srclang="en"/><body/></tmx>';
+
+      expect(HistoryExchange.import(content, 'tmx', [])).toEqual({ entries: [], duplicates: 0, invalid: 0 });
+    });
+  });
+
+  it('определяет формат по расширению файла', () => {
+    expect(HistoryExchange.detectFormat('history.TMX')).toBe('tmx');
+    expect(HistoryExchange.detectFormat('history.csv')).toBe('csv');
+    expect(HistoryExchange.detectFormat('history.xlsx')).toBeNull();
+  });
+});
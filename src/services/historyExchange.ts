@@ -0,0 +1,291 @@
+import { HistoryService, TranslationHistory, HistorySourceType } from './historyService';
+import { DownloadableFile, FileService } from './fileService';
+import { findLanguage } from '../data/languages';
+
+export type ExchangeFormat = 'json' | 'csv' | 'tmx';
+
+export interface ImportResult {
+  entries: TranslationHistory[];
+  duplicates: number;
+  invalid: number;
+}
+
+// Запись без служебных полей — в таком виде она попадает в файлы
+interface ExchangeRecord {
+  sourceText: string;
+  translatedText: string;
+  fromLanguage: string;
+  toLanguage: string;
+  timestamp: Date;
+  sourceType: HistorySourceType;
+  pinned: boolean;
+}
+
+const CSV_COLUMNS = ['source_language', 'target_language', 'source_text', 'translated_text', 'timestamp', 'source_type', 'pinned'];
+
+// Экспорт и импорт истории в JSON, CSV и TMX 1.4 для CAT-инструментов
+export class HistoryExchange {
+  static readonly formats: ExchangeFormat[] = ['json', 'csv', 'tmx'];
+
+  static detectFormat(fileName: string): ExchangeFormat | null {
+    const extension = FileService.getExtension(fileName);
+    return this.formats.find(format => format === extension) ?? null;
+  }
+
+  static export(entries: TranslationHistory[], format: ExchangeFormat): DownloadableFile {
+    const date = new Date().toISOString().slice(0, 10);
+    const fileName = `venom-history-${date}.${format}`;
+
+    switch (format) {
+      case 'json':
+        return { content: this.toJson(entries), fileName, mimeType: 'application/json' };
+      case 'csv':
+        return { content: this.toCsv(entries), fileName, mimeType: 'text/csv' };
+      case 'tmx':
+        return { content: this.toTmx(entries), fileName, mimeType: 'application/x-tmx+xml' };
+    }
+  }
+
+  static import(content: string, format: ExchangeFormat, existing: TranslationHistory[]): ImportResult {
+    const records = format === 'json'
+      ? this.fromJson(content)
+      : format === 'csv'
+        ? this.fromCsv(content)
+        : this.fromTmx(content);
+
+    const seen = new Set(existing.map(entry => this.getDedupKey(entry)));
+    const entries: TranslationHistory[] = [];
+    let duplicates = 0;
+    let invalid = 0;
+
+    for (const record of records) {
+      const fromLanguage = this.normalizeLanguage(record.fromLanguage);
+      const toLanguage = this.normalizeLanguage(record.toLanguage);
+
+      if (!fromLanguage || !toLanguage || !record.sourceText.trim() || !record.translatedText.trim()) {
+        invalid++;
+        continue;
+      }
+
+      const entry: TranslationHistory = {
+        ...record,
+        id: HistoryService.createId(),
+        fromLanguage,
+        toLanguage,
+        timestamp: isNaN(record.timestamp.getTime()) ? new Date() : record.timestamp
+      };
+
+      const key = this.getDedupKey(entry);
+      if (seen.has(key)) {
+        duplicates++;
+        continue;
+      }
+
+      seen.add(key);
+      entries.push(entry);
+    }
+
+    return { entries, duplicates, invalid };
+  }
+
+  private static toJson(entries: TranslationHistory[]): string {
+    return JSON.stringify({
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      entries: entries.map(entry => ({
+        sourceText: entry.sourceText,
+        translatedText: entry.translatedText,
+        fromLanguage: entry.fromLanguage,
+        toLanguage: entry.toLanguage,
+        timestamp: entry.timestamp.toISOString(),
+        sourceType: entry.sourceType,
+        pinned: entry.pinned
+      }))
+    }, null, 2);
+  }
+
+  private static fromJson(content: string): ExchangeRecord[] {
+    const data = JSON.parse(content);
+    // Поддерживаем как наш формат с оберткой, так и просто массив записей
+    const items: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.entries) ? data.entries : [];
+
+    return items
+      .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+      .map(item => ({
+        sourceText: String(item.sourceText ?? ''),
+        translatedText: String(item.translatedText ?? ''),
+        fromLanguage: String(item.fromLanguage ?? ''),
+        toLanguage: String(item.toLanguage ?? ''),
+        timestamp: new Date(String(item.timestamp ?? '')),
+        sourceType: item.sourceType === 'image' ? 'image' : 'text',
+        pinned: item.pinned === true
+      }));
+  }
+
+  private static toCsv(entries: TranslationHistory[]): string {
+    const escape = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+    const rows = entries.map(entry => [
+      entry.fromLanguage,
+      entry.toLanguage,
+      entry.sourceText,
+      entry.translatedText,
+      entry.timestamp.toISOString(),
+      entry.sourceType,
+      String(entry.pinned)
+    ].map(escape).join(','));
+
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+  }
+
+  private static fromCsv(content: string): ExchangeRecord[] {
+    const [header, ...rows] = this.parseCsv(content.replace(/^\uFEFF/, ''));
+    if (!header) {
+      return [];
+    }
+
+    const column = (row: string[], name: string) => row[header.indexOf(name)] ?? '';
+
+    return rows
+      .filter(row => row.some(cell => cell.trim()))
+      .map(row => ({
+        sourceText: column(row, 'source_text'),
+        translatedText: column(row, 'translated_text'),
+        fromLanguage: column(row, 'source_language'),
+        toLanguage: column(row, 'target_language'),
+        timestamp: new Date(column(row, 'timestamp')),
+        sourceType: column(row, 'source_type') === 'image' ? 'image' : 'text',
+        pinned: column(row, 'pinned') === 'true'
+      }));
+  }
+
+  // Разбор CSV по RFC 4180: кавычки, экранированные кавычки и переносы строк внутри полей
+  private static parseCsv(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') {
+          i++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  private static toTmx(entries: TranslationHistory[]): string {
+    // Возврат каретки экранируем: XML-парсер при чтении заменяет \r\n на \n
+    const escape = (value: string) => value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/\r/g, '&#13;');
+    const tmxDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+    const sourceLanguages = new Set(entries.map(entry => entry.fromLanguage));
+    const srcLang = sourceLanguages.size === 1 ? [...sourceLanguages][0] : '*all*';
+
+    const units = entries.map(entry => [
+      `    <tu srclang="${entry.fromLanguage}" creationdate="${tmxDate(entry.timestamp)}">`,
+      `      <prop type="x-venom-source-type">${entry.sourceType}</prop>`,
+      ...(entry.pinned ? ['      <prop type="x-venom-pinned">true</prop>'] : []),
+      `      <tuv xml:lang="${entry.fromLanguage}"><seg>${escape(entry.sourceText)}</seg></tuv>`,
+      `      <tuv xml:lang="${entry.toLanguage}"><seg>${escape(entry.translatedText)}</seg></tuv>`,
+      '    </tu>'
+    ].join('\n'));
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<tmx version="1.4">',
+      `  <header creationtool="Venom Translator" creationtoolversion="1.0" segtype="paragraph" o-tmf="venom-history" adminlang="en" srclang="${srcLang}" datatype="plaintext" creationdate="${tmxDate(new Date())}"/>`,
+      '  <body>',
+      ...units,
+      '  </body>',
+      '</tmx>'
+    ].join('\n');
+  }
+
+  private static fromTmx(content: string): ExchangeRecord[] {
+    const document = new DOMParser().parseFromString(content, 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('Некорректный TMX-файл');
+    }
+
+    const headerSrcLang = document.querySelector('header')?.getAttribute('srclang') ?? '';
+    const getLang = (tuv: Element) => tuv.getAttribute('xml:lang') ?? tuv.getAttribute('lang') ?? '';
+    const getProp = (tu: Element, type: string) =>
+      [...tu.getElementsByTagName('prop')].find(prop => prop.getAttribute('type') === type)?.textContent ?? '';
+    const parseTmxDate = (value: string) =>
+      new Date(value.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, '$1-$2-$3T$4:$5:$6Z'));
+
+    const records: ExchangeRecord[] = [];
+
+    for (const tu of [...document.getElementsByTagName('tu')]) {
+      const tuvs = [...tu.getElementsByTagName('tuv')];
+      const srcLang = tu.getAttribute('srclang') ?? headerSrcLang;
+
+      // Исходный вариант ищем по srclang, иначе берем первый
+      const source = tuvs.find(tuv => this.sameLanguage(getLang(tuv), srcLang)) ?? tuvs[0];
+      const segText = (tuv: Element) => tuv.getElementsByTagName('seg')[0]?.textContent ?? '';
+
+      // Один блок TMX может содержать несколько переводов — каждый становится отдельной записью
+      for (const target of tuvs.filter(tuv => tuv !== source)) {
+        records.push({
+          sourceText: segText(source),
+          translatedText: segText(target),
+          fromLanguage: getLang(source),
+          toLanguage: getLang(target),
+          timestamp: parseTmxDate(tu.getAttribute('creationdate') ?? ''),
+          sourceType: getProp(tu, 'x-venom-source-type') === 'image' ? 'image' : 'text',
+          pinned: getProp(tu, 'x-venom-pinned') === 'true'
+        });
+      }
+    }
+
+    return records;
+  }
+
+  private static sameLanguage(a: string, b: string): boolean {
+    return Boolean(a) && this.normalizeLanguage(a) === this.normalizeLanguage(b);
+  }
+
+  // Приводит "en-US" к "en" и проверяет, что язык есть в реестре
+  private static normalizeLanguage(code: string): string | null {
+    return findLanguage(code)?.code ?? null;
+  }
+
+  private static getDedupKey(entry: Pick<TranslationHistory, 'fromLanguage' | 'toLanguage' | 'sourceText' | 'translatedText'>): string {
+    return [entry.fromLanguage, entry.toLanguage, entry.sourceText.trim(), entry.translatedText.trim()].join('|');
+  }
+}
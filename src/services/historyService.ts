@@ -0,0 +1,122 @@
+import { openDatabase, requestToPromise, transactionDone, STORES } from './database';
+
+export type HistorySourceType = 'text' | 'image';
+
+// Фрагмент записи с маркерами вместо ссылок, кода и терминов — в таком виде его хранит память переводов
+export interface HistorySegment {
+  sourceLanguage: string;
+  source: string;
+  translation: string;
+}
+
+export interface TranslationHistory {
+  id: string;
+  sourceText: string;
+  translatedText: string;
+  fromLanguage: string;
+  toLanguage: string;
+  timestamp: Date;
+  sourceType: HistorySourceType;
+  pinned: boolean;
+  // Часть текста переведена без провайдеров (офлайн-движком, словарем) или осталась без перевода —
+  // из такой записи в память переводов попадают только ее фрагменты segments
+  machineFallback?: boolean;
+  // Фрагменты, переведенные провайдером или исправленные пользователем; нет в старых и импортированных записях
+  segments?: HistorySegment[];
+}
+
+export interface HistoryFilters {
+  query: string;
+  // Пара в формате "ru-en" или 'all'
+  languagePair: string;
+  sourceType: HistorySourceType | 'all';
+  dateFrom: string;
+  dateTo: string;
+}
+
+export const emptyHistoryFilters: HistoryFilters = {
+  query: '',
+  languagePair: 'all',
+  sourceType: 'all',
+  dateFrom: '',
+  dateTo: ''
+};
+
+// Хранение истории переводов в IndexedDB без ограничения на количество записей
+export class HistoryService {
+  static createId(): string {
+    return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  static async getAll(): Promise<TranslationHistory[]> {
+    const db = await openDatabase();
+    const entries = await requestToPromise<TranslationHistory[]>(
+      db.transaction(STORES.history).objectStore(STORES.history).getAll()
+    );
+    return this.sort(entries);
+  }
+
+  static async save(entries: TranslationHistory[]): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.history, 'readwrite');
+    const store = transaction.objectStore(STORES.history);
+    entries.forEach(entry => store.put(entry));
+    await transactionDone(transaction);
+  }
+
+  static async remove(id: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.history, 'readwrite');
+    transaction.objectStore(STORES.history).delete(id);
+    await transactionDone(transaction);
+  }
+
+  // Закрепленные записи при очистке сохраняются
+  static async clearUnpinned(): Promise<void> {
+    const entries = await this.getAll();
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.history, 'readwrite');
+    const store = transaction.objectStore(STORES.history);
+    entries.filter(entry => !entry.pinned).forEach(entry => store.delete(entry.id));
+    await transactionDone(transaction);
+  }
+
+  // Закрепленные сверху, внутри групп — от новых к старым
+  static sort(entries: TranslationHistory[]): TranslationHistory[] {
+    return [...entries].sort((a, b) => {
+      if (a.pinned !== b.pinned) {
+        return a.pinned ? -1 : 1;
+      }
+      return b.timestamp.getTime() - a.timestamp.getTime();
+    });
+  }
+
+  static filter(entries: TranslationHistory[], filters: HistoryFilters): TranslationHistory[] {
+    const query = filters.query.trim().toLowerCase();
+    const dateFrom = filters.dateFrom ? new Date(`${filters.dateFrom}T00:00:00`) : null;
+    const dateTo = filters.dateTo ? new Date(`${filters.dateTo}T23:59:59.999`) : null;
+
+    return entries.filter(entry => {
+      if (query && !entry.sourceText.toLowerCase().includes(query) && !entry.translatedText.toLowerCase().includes(query)) {
+        return false;
+      }
+      if (filters.languagePair !== 'all' && this.getLanguagePair(entry) !== filters.languagePair) {
+        return false;
+      }
+      if (filters.sourceType !== 'all' && entry.sourceType !== filters.sourceType) {
+        return false;
+      }
+      if (dateFrom && entry.timestamp < dateFrom) {
+        return false;
+      }
+      if (dateTo && entry.timestamp > dateTo) {
+        return false;
+      }
+      return true;
+    });
+  }
+
+  static getLanguagePair(entry: TranslationHistory): string {
+    return `${entry.fromLanguage}-${entry.toLanguage}`;
+  }
+}
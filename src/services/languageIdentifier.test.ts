@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { LanguageIdentifier } from './languageIdentifier';
+
+const topLanguage = (text: string) => LanguageIdentifier.identify(text, 1)[0];
+
+describe('LanguageIdentifier', () => {
+  // Бытовые фразы, которых нет в обучающих текстах: их не должны забирать близкие кириллические языки
+  it.each([
+    'Привет всем, сегодня встреча в три часа.',
+    'давай завтра созвонимся после обеда…',
+    'Спасибо, всё получилось!',
+    'Как дела? Давно не виделись.',
+    'Позвони мне, когда приедешь домой.',
+    'У меня сломался ноутбук, нужна помощь.',
+    'Отправь, пожалуйста, отчёт до пятницы.',
+    'Сколько стоит билет до Москвы?',
+    'Хорошего дня!',
+    'Я опоздаю на десять минут'
+  ])('уверенно определяет русский: %s', (text) => {
+    const top = topLanguage(text);
+
+    expect(top.language).toBe('ru');
+    expect(top.confidence).toBeGreaterThanOrEqual(LanguageIdentifier.LOW_CONFIDENCE);
+  });
+
+  it.each([
+    ['uk', 'Привіт усім, сьогодні зустріч о третій годині.'],
+    ['uk', 'Я не знаю, що робити далі.'],
+    ['bg', 'Здравейте на всички, днес имаме среща в три часа.'],
+    ['bg', 'Къде се намира най-близката аптека?'],
+    ['sr', 'Здраво свима, данас је састанак у три сата.'],
+    ['sr', 'Где се налази најближа апотека?'],
+    ['be', 'Прывітанне ўсім, сёння сустрэча а трэцяй гадзіне.'],
+    ['be', 'Дзе знаходзіцца бліжэйшая аптэка?']
+  ])('отличает от русского близкий язык %s: %s', (language, text) => {
+    expect(topLanguage(text).language).toBe(language);
+  });
+
+  it('не считает смешанным обычный русский текст', () => {
+    const text = 'Привет всем, сегодня встреча в три часа. Давай завтра созвонимся после обеда. У меня сломался ноутбук.';
+
+    expect(LanguageIdentifier.isMixed(text)).toBe(false);
+  });
+});
@@ -0,0 +1,223 @@
+import { languageSamples } from '../data/languageSamples';
+
+export interface LanguageCandidate {
+  language: string;
+  // Доля уверенности от 0 до 1; сумма по всем кандидатам не превышает 1
+  confidence: number;
+}
+
+interface LanguageProfile {
+  language: string;
+  script: string;
+  // Логарифмы частот n-грамм, посчитанные по обучающему тексту
+  grams: Map<string, number>;
+  // Логарифм вероятности n-граммы, которой нет в обучающем тексте
+  unseen: number;
+  // Логарифм доли письменности в обучающем тексте: иероглифы без каны скорее китайские
+  prior: number;
+}
+
+// Письменности различаются по свойствам Unicode. Кана встречается только в японском,
+// а иероглифы общие для китайского и японского и различаются уже по n-граммам
+const SCRIPTS: Array<[string, RegExp]> = [
+  ['latin', /\p{Script=Latin}/u],
+  ['cyrillic', /\p{Script=Cyrillic}/u],
+  ['kana', /[\p{Script=Hiragana}\p{Script=Katakana}ー]/u],
+  ['han', /\p{Script=Han}/u],
+  ['hangul', /\p{Script=Hangul}/u],
+  ['arabic', /\p{Script=Arabic}/u],
+  ['devanagari', /\p{Script=Devanagari}/u],
+  ['greek', /\p{Script=Greek}/u],
+  ['hebrew', /\p{Script=Hebrew}/u]
+];
+
+const MAX_GRAM = 3;
+// Сколько n-грамм учитывается при оценке уверенности: без ограничения
+// наивный байесовский классификатор на длинных текстах дает почти всегда 100%
+const EVIDENCE_LIMIT = 40;
+// Анализируем начало текста, этого достаточно для уверенного ответа
+const MAX_TEXT_LENGTH = 1000;
+// Предложения короче этого числа букв не учитываются при поиске смешанного текста
+const MIN_SENTENCE_LETTERS = 15;
+// Доля букв второй письменности, начиная с которой текст считается смешанным
+const MIXED_SCRIPT_SHARE = 0.2;
+// Письменность входит в профиль языка, если ею записана заметная часть обучающего текста
+const MIN_SCRIPT_SHARE = 0.2;
+
+const getScript = (char: string): string | null =>
+  SCRIPTS.find(([, pattern]) => pattern.test(char))?.[0] ?? null;
+
+// Слова текста, сгруппированные по письменности
+const splitByScript = (text: string): Map<string, string[]> => {
+  const words = new Map<string, string[]>();
+  for (const word of text.toLowerCase().match(/[\p{L}\p{M}]+/gu) ?? []) {
+    // Слово может смешивать письменности, например «iPhone-ом»; делим его на однородные части
+    let current = '';
+    let currentScript: string | null = null;
+    for (const char of word) {
+      const script: string | null = /\p{M}/u.test(char) ? currentScript : getScript(char);
+      if (script !== currentScript && current) {
+        if (currentScript) words.set(currentScript, [...(words.get(currentScript) ?? []), current]);
+        current = '';
+      }
+      currentScript = script;
+      current += char;
+    }
+    if (current && currentScript) words.set(currentScript, [...(words.get(currentScript) ?? []), current]);
+  }
+  return words;
+};
+
+// Символьные n-граммы длиной от 1 до MAX_GRAM; пробелы по краям отмечают начало и конец слова
+const extractGrams = (words: string[]): string[] => {
+  const grams: string[] = [];
+  for (const word of words) {
+    const chars = [' ', ...word, ' '];
+    for (let size = 1; size <= MAX_GRAM; size++) {
+      for (let i = 0; i + size <= chars.length; i++) {
+        const gram = chars.slice(i, i + size).join('');
+        if (gram.trim()) grams.push(gram);
+      }
+    }
+  }
+  return grams;
+};
+
+// Определение языка без сети: письменность сужает круг языков,
+// а внутри письменности язык выбирает классификатор по символьным n-граммам
+export class LanguageIdentifier {
+  // Ниже этой уверенности определенный язык стоит перепроверить
+  static readonly LOW_CONFIDENCE = 0.6;
+
+  private static profiles: LanguageProfile[] | null = null;
+
+  // Кандидаты по убыванию уверенности; пустой список, если в тексте нет букв известных письменностей
+  static identify(text: string, limit = 3): LanguageCandidate[] {
+    const wordsByScript = splitByScript(text.slice(0, MAX_TEXT_LENGTH));
+    const totalLetters = [...wordsByScript.values()].flat().reduce((sum, word) => sum + word.length, 0);
+    if (totalLetters === 0) {
+      return [];
+    }
+
+    // Уверенность складывается по письменностям: японский набирает ее и за кану, и за иероглифы
+    const confidences = new Map<string, number>();
+    for (const [script, words] of wordsByScript) {
+      const share = words.reduce((sum, word) => sum + word.length, 0) / totalLetters;
+      const profiles = this.getProfiles().filter(profile => profile.script === script);
+      for (const { language, probability } of this.classify(words, profiles)) {
+        confidences.set(language, (confidences.get(language) ?? 0) + share * probability);
+      }
+    }
+
+    return [...confidences]
+      .map(([language, confidence]) => ({ language, confidence }))
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, limit);
+  }
+
+  // Смешанный текст: заметные части в письменностях, которые не встречаются вместе ни в одном языке,
+  // или уверенно определенные предложения на разных языках
+  static isMixed(text: string): boolean {
+    const sample = text.slice(0, MAX_TEXT_LENGTH);
+    const profiles = this.getProfiles();
+    const letters = [...splitByScript(sample)]
+      .map(([script, words]) => [script, words.join('').length] as const)
+      .filter(([script]) => profiles.some(profile => profile.script === script));
+    const totalLetters = letters.reduce((sum, [, count]) => sum + count, 0);
+    // Языки, которые могли бы написать каждую заметную часть текста; японский пишет и каной, и иероглифами
+    const shared = letters
+      .filter(([, count]) => count / totalLetters >= MIXED_SCRIPT_SHARE)
+      .map(([script]) => new Set(profiles.filter(profile => profile.script === script).map(profile => profile.language)))
+      .reduce<Set<string> | null>((common, languages) => (
+        common ? new Set([...common].filter(language => languages.has(language))) : languages
+      ), null);
+    if (shared && shared.size === 0) {
+      return true;
+    }
+
+    const sentenceLanguages = new Set<string>();
+    for (const sentence of sample.split(/(?<=[.!?。！？…])\s+|\n+/)) {
+      if ((sentence.match(/\p{L}/gu) ?? []).length < MIN_SENTENCE_LETTERS) continue;
+      const [top] = this.identify(sentence, 1);
+      if (top && top.confidence >= this.LOW_CONFIDENCE) {
+        sentenceLanguages.add(top.language);
+      }
+    }
+    return sentenceLanguages.size > 1;
+  }
+
+  // Вероятности языков одной письменности по n-граммам слов
+  private static classify(words: string[], profiles: LanguageProfile[]): Array<{ language: string; probability: number }> {
+    if (profiles.length <= 1) {
+      return profiles.map(profile => ({ language: profile.language, probability: 1 }));
+    }
+
+    const grams = extractGrams(words);
+    // Короткий текст дает мало свидетельств, длинный приводится к EVIDENCE_LIMIT n-граммам
+    const scale = Math.min(1, EVIDENCE_LIMIT / Math.max(grams.length, 1));
+    const scores = profiles.map(profile =>
+      grams.reduce((sum, gram) => sum + (profile.grams.get(gram) ?? profile.unseen), 0) * scale + profile.prior
+    );
+
+    const best = Math.max(...scores);
+    const weights = scores.map(score => Math.exp(score - best));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    return profiles.map((profile, i) => ({ language: profile.language, probability: weights[i] / total }));
+  }
+
+  private static getProfiles(): LanguageProfile[] {
+    if (!this.profiles) {
+      const counted = Object.entries(languageSamples).flatMap(([language, sample]) => {
+        const wordsByScript = splitByScript(sample);
+        const total = [...wordsByScript.values()].flat().join('').length;
+        // У японского два профиля: по кане и по иероглифам
+        return [...wordsByScript]
+          .filter(([, words]) => words.join('').length / total >= MIN_SCRIPT_SHARE)
+          .map(([script, words]) => ({
+            language,
+            script,
+            grams: extractGrams(words),
+            prior: Math.log(words.join('').length / total)
+          }));
+      });
+
+      // Словарь n-грамм общий для письменности, иначе язык с коротким
+      // обучающим текстом получал бы меньший штраф за незнакомые n-граммы
+      const vocabularies = new Map<string, Set<string>>();
+      for (const { script, grams } of counted) {
+        const vocabulary = vocabularies.get(script) ?? new Set<string>();
+        grams.forEach(gram => vocabulary.add(gram));
+        vocabularies.set(script, vocabulary);
+      }
+
+      this.profiles = counted.map(({ language, script, grams, prior }) =>
+        this.buildProfile(language, script, grams, prior, vocabularies.get(script)!.size)
+      );
+    }
+    return this.profiles;
+  }
+
+  private static buildProfile(
+    language: string,
+    script: string,
+    grams: string[],
+    prior: number,
+    vocabularySize: number
+  ): LanguageProfile {
+    const counts = new Map<string, number>();
+    for (const gram of grams) {
+      counts.set(gram, (counts.get(gram) ?? 0) + 1);
+    }
+
+    // Сглаживание Лапласа: незнакомая n-грамма не обнуляет вероятность языка
+    const denominator = grams.length + vocabularySize + 1;
+    return {
+      language,
+      script,
+      grams: new Map([...counts].map(([gram, count]) => [gram, Math.log((count + 1) / denominator)])),
+      unseen: Math.log(1 / denominator),
+      prior
+    };
+  }
+}
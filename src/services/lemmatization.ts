@@ -0,0 +1,76 @@
+// Упрощенная лемматизация для поиска в словаре: вместо морфологического анализа
+// перебираются возможные начальные формы после отбрасывания окончаний множественного числа и падежей
+
+// Окончания отсортированы от длинных к коротким, чтобы сначала пробовать более точный вариант
+const RUSSIAN_ENDINGS = [
+  'ами', 'ями', 'ого', 'его', 'ому', 'ему', 'ыми', 'ими',
+  'ой', 'ей', 'ом', 'ем', 'ах', 'ях', 'ов', 'ев', 'ам', 'ям', 'ую', 'юю', 'ые', 'ие', 'ых', 'их',
+  'а', 'я', 'ы', 'и', 'у', 'ю', 'е', 'о'
+];
+// Начальные формы, которые дописываются к основе
+const RUSSIAN_LEMMA_ENDINGS = ['', 'а', 'я', 'о', 'е', 'ь', 'й', 'ый', 'ий', 'ой'];
+
+const ENGLISH_SUFFIXES: Array<[string, string[]]> = [
+  ['ies', ['y']],
+  ['ves', ['f', 'fe']],
+  ['ing', ['', 'e']],
+  ['ied', ['y']],
+  ['ed', ['', 'e']],
+  ['es', ['', 'e']],
+  ['s', ['']]
+];
+
+// Для остальных языков с латиницей отбрасываем только типичные окончания множественного числа
+const GENERIC_PLURAL_SUFFIXES = ['es', 'en', 'er', 's', 'e', 'n'];
+
+// Само слово остается первым даже из одной буквы, отброшенные окончания не должны давать огрызков
+const unique = (word: string, items: string[]): string[] => [...new Set([word, ...items.filter(item => item.length > 1)])];
+
+const getRussianCandidates = (word: string): string[] => {
+  const candidates = [word];
+  for (const ending of RUSSIAN_ENDINGS) {
+    if (word.length - ending.length >= 2 && word.endsWith(ending)) {
+      const stem = word.slice(0, -ending.length);
+      candidates.push(...RUSSIAN_LEMMA_ENDINGS.map(lemmaEnding => stem + lemmaEnding));
+    }
+  }
+  // «ё» в словарях часто записывается как «е»
+  return candidates.flatMap(candidate => [candidate, candidate.replace(/ё/g, 'е')]);
+};
+
+const getEnglishCandidates = (word: string): string[] => {
+  const base = word.replace(/['’]s$/, '');
+  const candidates = [word, base];
+  for (const [suffix, replacements] of ENGLISH_SUFFIXES) {
+    if (base.length - suffix.length >= 2 && base.endsWith(suffix)) {
+      const stem = base.slice(0, -suffix.length);
+      candidates.push(...replacements.map(replacement => stem + replacement));
+      // running → run: удвоенная согласная перед -ing/-ed
+      if (/(.)\1$/.test(stem)) {
+        candidates.push(stem.slice(0, -1));
+      }
+    }
+  }
+  return candidates;
+};
+
+const getGenericCandidates = (word: string): string[] => [
+  word,
+  ...GENERIC_PLURAL_SUFFIXES
+    .filter(suffix => word.length - suffix.length >= 2 && word.endsWith(suffix))
+    .map(suffix => word.slice(0, -suffix.length))
+];
+
+// Возможные словарные формы слова, начиная с самого слова
+export const getLemmaCandidates = (word: string, language: string): string[] => {
+  const lower = word.toLowerCase();
+  switch (language) {
+    case 'ru':
+    case 'uk':
+      return unique(lower, getRussianCandidates(lower));
+    case 'en':
+      return unique(lower, getEnglishCandidates(lower));
+    default:
+      return unique(lower, getGenericCandidates(lower));
+  }
+};
@@ -0,0 +1,7 @@
+import { localHttpEngine } from './localHttpEngine';
+import { phraseTableEngine } from './phraseTableEngine';
+
+export { localHttpEngine, phraseTableEngine };
+
+// Локальный сервер переводит целыми предложениями, поэтому опрашивается раньше таблиц фраз
+export const builtInLocalEngines = [localHttpEngine, phraseTableEngine];
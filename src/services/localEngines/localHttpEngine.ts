@@ -0,0 +1,29 @@
+import { LocalEngine } from '../offlineService';
+
+// Собственный сервер перевода на этом же компьютере или в локальной сети
+// с API LibreTranslate (например, запущенный в Docker LibreTranslate или Argos)
+export const localHttpEngine: LocalEngine = {
+  id: 'local-http',
+  name: 'Локальный сервер',
+
+  async translate(text, fromLang, toLang, settings, signal) {
+    if (!settings.localEndpoint) {
+      return null;
+    }
+
+    const response = await fetch(settings.localEndpoint, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ q: text, source: fromLang, target: toLang, format: 'text' })
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      if (typeof data.translatedText === 'string') {
+        return data.translatedText;
+      }
+    }
+    return null;
+  }
+};
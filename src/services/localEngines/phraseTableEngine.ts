@@ -0,0 +1,118 @@
+import { LocalEngine, PartialLocalTranslation } from '../offlineService';
+import { cancellable } from '../cancellation';
+
+// Таблица фраз для одной языковой пары: public/phrases/<from>-<to>.json
+interface PhraseTable {
+  version: number;
+  phrases: Record<string, string>;
+  // Длина самой длинной фразы в словах, чтобы не перебирать лишнее
+  maxWords: number;
+}
+
+const WORD_PATTERN = /\p{L}[\p{L}\p{M}'’-]*/gu;
+
+// Загруженные таблицы по паре; null — таблицы для пары нет
+const tables = new Map<string, PhraseTable | null>();
+const pending = new Map<string, Promise<PhraseTable | null>>();
+
+const loadTable = (fromLang: string, toLang: string): Promise<PhraseTable | null> => {
+  const pair = `${fromLang}-${toLang}`;
+  if (tables.has(pair)) {
+    return Promise.resolve(tables.get(pair) ?? null);
+  }
+
+  let request = pending.get(pair);
+  if (!request) {
+    request = fetch(`${import.meta.env.BASE_URL}phrases/${pair}.json`)
+      .then(async response => {
+        // Отсутствие таблицы запоминаем; сетевую ошибку — нет, чтобы попробовать позже
+        if (!response.ok) {
+          tables.set(pair, null);
+          return null;
+        }
+        const data = await response.json() as { version: number; phrases: Record<string, string> };
+        const phrases = Object.fromEntries(
+          Object.entries(data.phrases).map(([phrase, translation]) => [phrase.toLowerCase(), translation])
+        );
+        const maxWords = Math.max(1, ...Object.keys(phrases).map(phrase => phrase.split(' ').length));
+        const table = { version: data.version, phrases, maxWords };
+        tables.set(pair, table);
+        return table;
+      })
+      .finally(() => pending.delete(pair));
+    pending.set(pair, request);
+  }
+  return request;
+};
+
+const matchCase = (translation: string, original: string): string => {
+  if (original.length > 1 && original === original.toUpperCase() && original !== original.toLowerCase()) {
+    return translation.toUpperCase();
+  }
+  if (original[0] && original[0] !== original[0].toLowerCase()) {
+    return translation.charAt(0).toUpperCase() + translation.slice(1);
+  }
+  return translation;
+};
+
+// Пословный перевод по таблице фраз: на каждой позиции берется самая длинная известная фраза.
+// Незнакомые слова остаются как есть, и перевод помечается частичным; если не нашлось ни одной фразы, движок не отвечает
+const translateWithTable = (text: string, table: PhraseTable): string | PartialLocalTranslation | null => {
+  const words = [...text.matchAll(WORD_PATTERN)].map(match => ({
+    word: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }));
+
+  let result = '';
+  let position = 0;
+  let translated = 0;
+  let skipped = 0;
+
+  for (let i = 0; i < words.length;) {
+    let length = Math.min(table.maxWords, words.length - i);
+    let translation: string | undefined;
+
+    // Фраза должна состоять из слов, разделенных только пробелами
+    for (; length > 0; length--) {
+      const span = words.slice(i, i + length);
+      const contiguous = span.every((item, index) => index === 0 || /^\s+$/.test(text.slice(span[index - 1].end, item.start)));
+      if (!contiguous) continue;
+
+      translation = table.phrases[span.map(item => item.word.toLowerCase()).join(' ')];
+      if (translation !== undefined) break;
+    }
+
+    const first = words[i];
+    if (translation !== undefined && length > 0) {
+      const last = words[i + length - 1];
+      result += text.slice(position, first.start) + matchCase(translation, first.word);
+      position = last.end;
+      translated++;
+      i += length;
+    } else {
+      skipped++;
+      i++;
+    }
+  }
+
+  if (translated === 0) {
+    return null;
+  }
+  const translation = result + text.slice(position);
+  return skipped > 0 ? { translation, partial: true } : translation;
+};
+
+export const phraseTableEngine: LocalEngine = {
+  id: 'phrase-table',
+  name: 'Таблицы фраз',
+
+  async translate(text, fromLang, toLang, _settings, signal) {
+    const table = await cancellable(loadTable(fromLang, toLang), signal);
+    return table ? translateWithTable(text, table) : null;
+  },
+
+  async prepare(fromLang, toLang) {
+    await loadTable(fromLang, toLang);
+  }
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { TextFormat, protectMarkup } from './markupProtection';
+import { Placeholder, restorePlaceholders, stripPlaceholders } from './placeholders';
+
+const protect = (text: string, format: TextFormat) => {
+  const placeholders: Placeholder[] = [];
+  const masked = protectMarkup(text, format, placeholders);
+  return { masked, placeholders };
+};
+
+const roundTrip = (text: string, format: TextFormat): string => {
+  const { masked, placeholders } = protect(text, format);
+  return restorePlaceholders(masked, placeholders).text;
+};
+
+describe('protectMarkup', () => {
+  it.each<[TextFormat, string]>([
+    ['plain', 'See https://example.com, or write to team@example.com.'],
+    ['plain', 'Hello, {name}! You have %d new messages at https://example.com/{id}'],
+    ['html', '<p>See https://example.com</p>'],
+    ['html', 'Open https://example.com<br>and <b>read</b> &amp; enjoy'],
+    ['html', '<script>var x = "<b>";</script><p>Text</p><!-- note -->'],
+    ['markdown', '# Title\n\n- Visit https://example.com `npm install`\n- [Docs](https://example.com/docs "Docs")'],
+    ['markdown', 'Run `code` - then open https://example.com{id}\n\n```js\nconst a = "[[0]]";\n```'],
+    ['icu', '{count, plural, one {# file in {folder}} other {# files in {folder}}} at https://example.com']
+  ])('восстанавливает %s без потерь: %s', (format, text) => {
+    expect(roundTrip(text, format)).toBe(text);
+  });
+
+  it('не оставляет в тексте для перевода ни ссылок, ни тегов', () => {
+    const { masked } = protect('<p>See https://example.com</p>', 'html');
+
+    expect(stripPlaceholders(masked)).toBe('See ');
+  });
+
+  it('не дает ссылке захватить маркер следующего фрагмента', () => {
+    const { placeholders } = protect('<p>See https://example.com</p>', 'html');
+
+    expect(placeholders.map(placeholder => placeholder.value)).toContain('https://example.com');
+  });
+
+  it('сохраняет маркеры, которые уже были в тексте пользователя', () => {
+    const text = 'Token [[0]] and [[ 1 ]] stay as is: <b>bold</b>';
+
+    const { masked } = protect(text, 'html');
+
+    expect(stripPlaceholders(masked)).toBe('Token  and  stay as is: bold');
+    expect(roundTrip(text, 'html')).toBe(text);
+  });
+
+  it('переживает перевод: текст вокруг маркеров меняется, фрагменты остаются', () => {
+    const { masked, placeholders } = protect('<p>See https://example.com</p>', 'html');
+    const translated = masked.replace('See ', 'Смотрите ');
+
+    expect(restorePlaceholders(translated, placeholders).text).toBe('<p>Смотрите https://example.com</p>');
+  });
+});
+
+describe('restorePlaceholders', () => {
+  it('восстанавливает маркеры внутри значений других маркеров', () => {
+    const placeholders: Placeholder[] = [
+      { token: '[[0]]', value: 'Venom' },
+      { token: '[[1]]', value: '<a href="#">[[0]] Translator</a>' }
+    ];
+
+    const { text, restored } = restorePlaceholders('Open [[1]]', placeholders);
+
+    expect(text).toBe('Open <a href="#">Venom Translator</a>');
+    expect(restored).toHaveLength(2);
+  });
+
+  it('не зацикливается на значении, содержащем собственный маркер', () => {
+    const placeholders: Placeholder[] = [{ token: '[[0]]', value: 'a [[0]]' }];
+
+    expect(restorePlaceholders('[[0]]', placeholders).text).toMatch(/^a a /);
+  });
+
+  it('терпит пробелы, которые провайдер добавил внутри маркера', () => {
+    const placeholders: Placeholder[] = [{ token: '[[0]]', value: '<br>' }];
+
+    expect(restorePlaceholders('one[[ 0 ]]two', placeholders).text).toBe('one<br>two');
+  });
+});
@@ -0,0 +1,141 @@
+import { Placeholder, createPlaceholderToken, escapePlaceholders, replaceOutsidePlaceholders } from './placeholders';
+
+export type TextFormat = 'plain' | 'html' | 'markdown' | 'icu';
+
+// Фрагменты, которые нельзя переводить ни в одном формате: ссылки, адреса, printf-плейсхолдеры
+const COMMON_PATTERNS = [
+  /\bhttps?:\/\/[^\s<>"'`)\]]*[^\s<>"'`)\].,;:!?]/g,
+  /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g,
+  /%(?:\d+\$)?[-+0#]*\d*(?:\.\d+)?[sdifuxXeEgGcp@]/g
+];
+
+// Переменные в фигурных скобках: {name}, {{name}}, ${name}
+const VARIABLE_PATTERN = /\{\{[^{}]*\}\}|\$\{[^{}]*\}|\{[^{}\s][^{}]*\}/g;
+
+const HTML_PATTERNS = [
+  /<(script|style|code|pre)\b[^>]*>[\s\S]*?<\/\1>/gi,
+  /<!--[\s\S]*?-->/g,
+  /<[^>]+>/g,
+  /&(?:[a-z]+|#\d+|#x[\da-f]+);/gi
+];
+
+// Разметку начала строки ищем сразу после блоков кода: маркеры внутри строки
+// разрезают текст, и часть после маркера выглядела бы как начало строки
+const MARKDOWN_PATTERNS = [
+  /^(```|~~~)[^\n]*\n[\s\S]*?\n\1[^\n]*$/gm,
+  /^[ \t]*(?:#{1,6}|>|[-*+]|\d+[.)])(?:[ \t]+\[[ xX]\])?[ \t]+/gm,
+  /`[^`\n]+`/g,
+  /\]\([^)\s]+(?:\s+"[^"]*")?\)/g,
+  /<https?:\/\/[^>]+>/g,
+  ...HTML_PATTERNS.slice(1)
+];
+
+// Уже поставленные маркеры не трогаем: ссылка перед тегом не должна захватить маркер тега
+const maskPattern = (text: string, pattern: RegExp, placeholders: Placeholder[]): string =>
+  replaceOutsidePlaceholders(text, pattern, (match) => {
+    const token = createPlaceholderToken(placeholders.length);
+    placeholders.push({ token, value: match });
+    return token;
+  });
+
+// Находит служебные части ICU MessageFormat: аргументы, заголовки plural/select, ключи вариантов и '#'
+const findIcuSyntax = (text: string): Array<[number, number]> => {
+  const ranges: Array<[number, number]> = [];
+
+  const findClosingBrace = (start: number): number => {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+      if (text[i] === '{') depth++;
+      if (text[i] === '}' && --depth === 0) return i;
+    }
+    return text.length - 1;
+  };
+
+  // Разбирает текст сообщения до закрывающей скобки варианта и возвращает ее позицию
+  const parseMessage = (start: number, inPlural: boolean): number => {
+    let i = start;
+    while (i < text.length) {
+      const char = text[i];
+      if (char === '}') return i;
+      if (char === '#' && inPlural) {
+        ranges.push([i, i + 1]);
+        i++;
+      } else if (char === '{') {
+        i = parseArgument(i) + 1;
+      } else {
+        i++;
+      }
+    }
+    return i;
+  };
+
+  const parseArgument = (start: number): number => {
+    const header = text.slice(start).match(/^\{\s*[\w.]+\s*,\s*(plural|select|selectordinal)\s*,/);
+    if (!header) {
+      const end = findClosingBrace(start);
+      ranges.push([start, end + 1]);
+      return end;
+    }
+
+    const isPlural = header[1] !== 'select';
+    let i = start + header[0].length;
+    let syntaxStart = start;
+
+    // Ключи вариантов (one, other, =0, offset:1) остаются служебными, тексты вариантов переводятся
+    while (i < text.length) {
+      const branch = text.slice(i).match(/^\s*(?:offset:\d+\s*)?(?:=?[\w-]+)\s*\{/);
+      if (!branch) break;
+
+      i += branch[0].length;
+      ranges.push([syntaxStart, i]);
+      i = parseMessage(i, isPlural);
+      syntaxStart = i;
+      i++;
+    }
+
+    const end = text.indexOf('}', i);
+    const closing = end === -1 ? text.length - 1 : end;
+    ranges.push([syntaxStart, closing + 1]);
+    return closing;
+  };
+
+  parseMessage(0, false);
+  return ranges;
+};
+
+const maskIcu = (text: string, placeholders: Placeholder[]): string => {
+  let result = '';
+  let position = 0;
+
+  for (const [start, end] of findIcuSyntax(text)) {
+    const token = createPlaceholderToken(placeholders.length);
+    placeholders.push({ token, value: text.slice(start, end) });
+    result += text.slice(position, start) + token;
+    position = end;
+  }
+
+  return result + text.slice(position);
+};
+
+// Заменяет непереводимые фрагменты маркерами; маркеры добавляются к общему списку
+export const protectMarkup = (text: string, format: TextFormat, placeholders: Placeholder[]): string => {
+  let masked = escapePlaceholders(text, placeholders);
+
+  switch (format) {
+    case 'html':
+      masked = HTML_PATTERNS.reduce((acc, pattern) => maskPattern(acc, pattern, placeholders), masked);
+      break;
+    case 'markdown':
+      masked = MARKDOWN_PATTERNS.reduce((acc, pattern) => maskPattern(acc, pattern, placeholders), masked);
+      break;
+    case 'icu':
+      masked = maskIcu(masked, placeholders);
+      break;
+  }
+
+  if (format !== 'icu') {
+    masked = maskPattern(masked, VARIABLE_PATTERN, placeholders);
+  }
+
+  return COMMON_PATTERNS.reduce((acc, pattern) => maskPattern(acc, pattern, placeholders), masked);
+};
@@ -1,27 +1,53 @@
 import Tesseract from 'tesseract.js';
+import { cancellable, isCancelled, throwIfCancelled } from './cancellation';
+import { findLanguage, languageRegistry } from '../data/languages';
 
 export class OCRService {
-  static async extractTextFromImage(imageFile: File): Promise<string> {
+  // Модели Tesseract для всех языков реестра; английская идет первой, она же основная
+  private static readonly ALL_MODELS = [
+    'eng',
+    ...languageRegistry.map(language => language.tesseract).filter((model): model is string => Boolean(model) && model !== 'eng')
+  ];
+
+  // Известный исходный язык распознается своей моделью и английской — для латиницы в названиях и числах;
+  // при автоопределении загружаются модели всех языков
+  static getModels(language = 'auto'): string[] {
+    const model = language === 'auto' ? null : findLanguage(language)?.tesseract;
+    return model ? [...new Set([model, 'eng'])] : this.ALL_MODELS;
+  }
+
+  static async extractTextFromImage(imageFile: File, signal?: AbortSignal, language = 'auto'): Promise<string> {
     try {
       console.log('Starting advanced OCR processing...');
       
       // Предварительная обработка изображения для лучшего распознавания
       const processedImage = await this.preprocessImage(imageFile);
-      
-      const { data: { text } } = await Tesseract.recognize(
-        processedImage,
-        'eng+rus+spa+fra+deu+ita+por+chi_sim+jpn+kor+ara+hin+tur+nld+swe+dan+nor+fin+pol+ukr+bel+ces+slk+hun+ron+bul+hrv+srp+slv+est+lav+lit',
-        {
-          logger: m => {
-            if (m.status === 'recognizing text') {
-              console.log(`OCR Progress: ${Math.round(m.progress * 100)}%`);
-            }
-          },
+      throwIfCancelled(signal);
+
+      // Отдельный воркер можно остановить при отмене, Tesseract.recognize — нельзя
+      const pendingWorker = Tesseract.createWorker(this.getModels(language).join('+'), Tesseract.OEM.LSTM_ONLY, {
+        logger: m => {
+          if (m.status === 'recognizing text') {
+            console.log(`OCR Progress: ${Math.round(m.progress * 100)}%`);
+          }
+        }
+      });
+      const worker = await cancellable(pendingWorker, signal, () => {
+        pendingWorker.then(created => created.terminate()).catch(() => undefined);
+      });
+
+      let text: string;
+      try {
+        await worker.setParameters({
           tessedit_pageseg_mode: Tesseract.PSM.AUTO,
-          tessedit_ocr_engine_mode: Tesseract.OEM.LSTM_ONLY,
           preserve_interword_spaces: '1'
-        }
-      );
+        });
+        const { data } = await cancellable(worker.recognize(processedImage), signal);
+        text = data.text;
+      } finally {
+        // Остановка воркера прерывает и незавершенное распознавание
+        await worker.terminate().catch(() => undefined);
+      }
       
       // Улучшенная очистка текста с сохранением структуры
       const cleanText = this.cleanExtractedText(text);
@@ -33,6 +59,9 @@ export class OCRService {
       console.log('OCR completed successfully:', cleanText);
       return cleanText;
     } catch (error) {
+      if (isCancelled(error)) {
+        throw error;
+      }
       console.error('OCR Error:', error);
       throw new Error('Ошибка при распознавании текста: ' + (error as Error).message);
     }
@@ -0,0 +1,55 @@
+// @vitest-environment jsdom
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { OfflineService } from './offlineService';
+
+const table = {
+  version: 1,
+  phrases: { 'good morning': 'доброе утро', friends: 'друзья', hello: 'привет' }
+};
+
+beforeAll(() => {
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => (
+    url.endsWith('phrases/en-ru.json') ? new Response(JSON.stringify(table)) : new Response(null, { status: 404 })
+  )));
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('OfflineService.translate', () => {
+  it('переводит таблицей фраз, выбирая самую длинную фразу', async () => {
+    expect(await OfflineService.translate('Good morning, friends!', 'en', 'ru')).toEqual({
+      translation: 'Доброе утро, друзья!',
+      engine: 'phrase-table',
+      partial: false
+    });
+  });
+
+  it('помечает частичным перевод, в котором остались незнакомые слова', async () => {
+    expect(await OfflineService.translate('Hello, dear friends', 'en', 'ru')).toEqual({
+      translation: 'Привет, dear друзья',
+      engine: 'phrase-table',
+      partial: true
+    });
+  });
+
+  it('не отвечает, если не нашлось ни одной фразы или таблицы', async () => {
+    expect(await OfflineService.translate('Unknown words only', 'en', 'ru')).toBeNull();
+    expect(await OfflineService.translate('Hello', 'en', 'de')).toBeNull();
+  });
+
+  it('предпочитает полный перевод другого движка частичному', async () => {
+    OfflineService.registerEngine({
+      id: 'complete',
+      name: 'Полный перевод',
+      translate: async () => 'Привет, дорогие друзья'
+    });
+
+    expect(await OfflineService.translate('Hello, dear friends', 'en', 'ru')).toEqual({
+      translation: 'Привет, дорогие друзья',
+      engine: 'complete',
+      partial: false
+    });
+  });
+});
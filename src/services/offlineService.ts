@@ -0,0 +1,159 @@
+import { builtInLocalEngines } from './localEngines';
+import { CancelledError, isCancelled } from './cancellation';
+
+export interface OfflineSettings {
+  // Не обращаться к онлайн-провайдерам, даже если сеть есть
+  forceOffline: boolean;
+  // Адрес локального сервера, совместимого с LibreTranslate; пусто — не используется
+  localEndpoint: string;
+}
+
+// Ответ движка, который перевел не весь текст: часть слов осталась на исходном языке
+export interface PartialLocalTranslation {
+  translation: string;
+  partial: true;
+}
+
+// Локальный движок перевода, работающий без доступа к онлайн-провайдерам
+export interface LocalEngine {
+  id: string;
+  name: string;
+  translate(
+    text: string,
+    fromLang: string,
+    toLang: string,
+    settings: OfflineSettings,
+    signal?: AbortSignal
+  ): Promise<string | PartialLocalTranslation | null>;
+  // Заранее загружает данные для пары, пока сеть еще доступна
+  prepare?(fromLang: string, toLang: string, settings: OfflineSettings): Promise<void>;
+}
+
+export interface LocalTranslation {
+  translation: string;
+  engine: string;
+  partial: boolean;
+}
+
+// Офлайн-режим: определение отсутствия сети и перевод локальными движками
+export class OfflineService {
+  private static readonly SETTINGS_KEY = 'venom-translator:offline';
+  private static readonly DEFAULT_SETTINGS: OfflineSettings = {
+    forceOffline: false,
+    localEndpoint: ''
+  };
+  // Через сколько снова пробовать провайдеров после того, как ни один не ответил из-за сети
+  private static readonly RECHECK_INTERVAL = 60000;
+
+  private static settings = this.loadSettings();
+  private static engines: LocalEngine[] = [...builtInLocalEngines];
+  private static listeners = new Set<() => void>();
+  // Время, до которого провайдеры считаются недоступными по сети
+  private static unreachableUntil = 0;
+
+  static {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        this.unreachableUntil = 0;
+        this.notify();
+      });
+      window.addEventListener('offline', () => this.notify());
+    }
+  }
+
+  static isOffline(): boolean {
+    const browserOffline = typeof navigator !== 'undefined' && navigator.onLine === false;
+    return this.settings.forceOffline || browserOffline || Date.now() < this.unreachableUntil;
+  }
+
+  // Все провайдеры отказали с сетевой ошибкой: до повторной проверки переводим локально
+  static markUnreachable(): void {
+    this.unreachableUntil = Date.now() + this.RECHECK_INTERVAL;
+    this.notify();
+    setTimeout(() => this.notify(), this.RECHECK_INTERVAL);
+  }
+
+  static markReachable(): void {
+    if (this.unreachableUntil > 0) {
+      this.unreachableUntil = 0;
+      this.notify();
+    }
+  }
+
+  static registerEngine(engine: LocalEngine): void {
+    this.engines = [...this.engines.filter(item => item.id !== engine.id), engine];
+  }
+
+  static getEngines(): LocalEngine[] {
+    return [...this.engines];
+  }
+
+  // Опрашивает локальные движки по порядку; null — ни один не справился.
+  // Частичный перевод возвращается, только если ни один движок не перевел текст целиком
+  static async translate(text: string, fromLang: string, toLang: string, signal?: AbortSignal): Promise<LocalTranslation | null> {
+    let partial: LocalTranslation | null = null;
+
+    for (const engine of this.engines) {
+      try {
+        const result = await engine.translate(text, fromLang, toLang, this.settings, signal);
+        const translation = typeof result === 'string' ? result : result?.translation;
+        if (!translation || !translation.trim()) {
+          continue;
+        }
+        if (typeof result === 'string') {
+          return { translation, engine: engine.id, partial: false };
+        }
+        partial ??= { translation, engine: engine.id, partial: true };
+      } catch (error) {
+        if (isCancelled(error) || signal?.aborted) {
+          throw new CancelledError();
+        }
+        console.warn(`${engine.name} error:`, error);
+      }
+    }
+    return partial;
+  }
+
+  // Данные для выбранной пары загружаются заранее, чтобы перевод работал и после потери сети
+  static async prepare(fromLang: string, toLang: string): Promise<void> {
+    await Promise.all(this.engines.map(engine => engine.prepare?.(fromLang, toLang, this.settings).catch(error => {
+      console.warn(`${engine.name} preload failed:`, error);
+    })));
+  }
+
+  static getSettings(): OfflineSettings {
+    return { ...this.settings };
+  }
+
+  static configure(settings: Partial<OfflineSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+
+    try {
+      localStorage.setItem(this.SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('Failed to save offline settings:', error);
+    }
+    this.notify();
+  }
+
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private static loadSettings(): OfflineSettings {
+    try {
+      const raw = localStorage.getItem(this.SETTINGS_KEY);
+      return raw ? { ...this.DEFAULT_SETTINGS, ...JSON.parse(raw) } : { ...this.DEFAULT_SETTINGS };
+    } catch (error) {
+      console.warn('Failed to load offline settings:', error);
+      return { ...this.DEFAULT_SETTINGS };
+    }
+  }
+}
@@ -0,0 +1,76 @@
+// Защита фрагментов текста от провайдеров перевода: фрагмент заменяется маркером,
+// который переводчики оставляют нетронутым, а после перевода подставляется обратно
+export interface Placeholder {
+  token: string;
+  value: string;
+  // Значение подставляется как есть, без разбора маркеров внутри: так сохраняются маркеры из текста пользователя
+  literal?: boolean;
+}
+
+// Провайдеры иногда добавляют пробелы внутри маркера, поэтому разбор терпим к ним
+const PLACEHOLDER_PATTERN = /\[\[\s*(\d+)\s*\]\]/g;
+
+export const createPlaceholderToken = (index: number): string => `[[${index}]]`;
+
+export const hasPlaceholders = (text: string): boolean => new RegExp(PLACEHOLDER_PATTERN.source).test(text);
+
+export const stripPlaceholders = (text: string): string => text.replace(PLACEHOLDER_PATTERN, '');
+
+// Заменяет совпадения только вне маркеров, иначе шаблон мог бы захватить часть уже поставленного маркера
+export const replaceOutsidePlaceholders = (
+  text: string,
+  pattern: RegExp,
+  replacer: (match: string) => string
+): string =>
+  text
+    .split(/(\[\[\d+\]\])/)
+    .map((part, index) => (index % 2 === 1 ? part : part.replace(pattern, replacer)))
+    .join('');
+
+// Похожие на маркеры фрагменты исходного текста сами заменяются маркерами, чтобы не спутать их с нашими
+export const escapePlaceholders = (text: string, placeholders: Placeholder[]): string =>
+  text.replace(PLACEHOLDER_PATTERN, (match) => {
+    const token = createPlaceholderToken(placeholders.length);
+    placeholders.push({ token, value: match, literal: true });
+    return token;
+  });
+
+// Возвращает текст с восстановленными фрагментами и маркеры, которые удалось найти.
+// Значение фрагмента может само содержать маркеры, например термин глоссария внутри защищенного фрагмента
+export const restorePlaceholders = (
+  text: string,
+  placeholders: Placeholder[]
+): { text: string; restored: Placeholder[] } => {
+  const byToken = new Map(placeholders.map(placeholder => [placeholder.token, placeholder]));
+  const restored: Placeholder[] = [];
+
+  // Глубина ограничена числом маркеров, чтобы значение, содержащее собственный маркер, не зациклило разбор
+  const restore = (value: string, depth: number): string =>
+    value.replace(PLACEHOLDER_PATTERN, (match, index: string) => {
+      const placeholder = byToken.get(createPlaceholderToken(Number(index)));
+      if (!placeholder) {
+        return match;
+      }
+      restored.push(placeholder);
+      return placeholder.literal || depth >= placeholders.length
+        ? placeholder.value
+        : restore(placeholder.value, depth + 1);
+    });
+
+  return { text: restore(text, 0), restored };
+};
+
+// Обратная замена для текста, отредактированного пользователем: фрагменты, маркеры которых
+// были в исходном сегменте, снова заменяются маркерами. Удаленные пользователем фрагменты пропускаются
+export const reapplyPlaceholders = (text: string, source: string, placeholders: Placeholder[]): string => {
+  const byToken = new Map(placeholders.map(placeholder => [placeholder.token, placeholder]));
+  let result = text;
+
+  for (const [, index] of source.matchAll(PLACEHOLDER_PATTERN)) {
+    const placeholder = byToken.get(createPlaceholderToken(Number(index)));
+    if (placeholder && result.includes(placeholder.value)) {
+      result = result.replace(placeholder.value, placeholder.token);
+    }
+  }
+  return result;
+};
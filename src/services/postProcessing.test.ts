@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { postProcessTranslation } from './postProcessing';
+
+const NBSP = ' ';
+
+describe('postProcessTranslation', () => {
+  it('убирает повторы предложений и лишние пробелы', () => {
+    expect(postProcessTranslation('привет , мир.  Привет , мир. как дела ?', 'Hello', 'ru')).toBe('Привет, мир. Как дела?');
+  });
+
+  it('не делает заглавной первую букву сегмента, продолжающего предложение', () => {
+    expect(postProcessTranslation('и потом. дальше', 'and then. further', 'ru')).toBe('и потом. Дальше');
+  });
+
+  it('добавляет пробел между слитными предложениями, но не трогает домены, версии и сокращения', () => {
+    expect(postProcessTranslation('Готово.Дальше сайт example.com, версия 2.5 и т.д.', 'Done', 'ru')).toBe(
+      'Готово. Дальше сайт example.com, версия 2.5 и т.д.'
+    );
+  });
+
+  it('делает заглавной букву после открывающих кавычек', () => {
+    expect(postProcessTranslation('«привет», сказал он.', 'Hi', 'ru')).toBe('«Привет», сказал он.');
+  });
+
+  describe('французский', () => {
+    it('ставит неразрывный пробел перед двойными знаками и внутри кавычек', () => {
+      expect(postProcessTranslation('Vraiment? Oui! Attention: «bonjour»', 'Really?', 'fr')).toBe(
+        `Vraiment${NBSP}? Oui${NBSP}! Attention${NBSP}: «${NBSP}bonjour${NBSP}»`
+      );
+    });
+
+    it('не трогает двоеточие в ссылках и времени', () => {
+      expect(postProcessTranslation('Voir https://example.com à 10:30.', 'See', 'fr')).toBe('Voir https://example.com à 10:30.');
+    });
+  });
+
+  describe('испанский', () => {
+    it('добавляет перевернутые знаки в начало вопроса и восклицания', () => {
+      expect(postProcessTranslation('hola. cómo estás? qué bien!', 'Hi', 'es')).toBe('Hola. ¿Cómo estás? ¡Qué bien!');
+    });
+
+    it('не дублирует уже поставленные знаки', () => {
+      expect(postProcessTranslation('¿Qué pasa?', 'What?', 'es')).toBe('¿Qué pasa?');
+    });
+
+    it('не открывает вопрос в сегменте, продолжающем предложение', () => {
+      expect(postProcessTranslation('verdad?', 'right?', 'es')).toBe('verdad?');
+    });
+  });
+
+  describe('китайский и японский', () => {
+    it('заменяет знаки препинания полноширинными и убирает пробелы', () => {
+      expect(postProcessTranslation('你好, 世界. 你好吗?', 'Hello', 'zh')).toBe('你好，世界。你好吗？');
+      expect(postProcessTranslation('こんにちは, 世界...', 'Hello', 'ja')).toBe('こんにちは、世界…');
+    });
+
+    it('не трогает числа и латиницу', () => {
+      expect(postProcessTranslation('版本 2.5, 见 example.com', 'Version', 'zh')).toBe('版本 2.5, 见 example.com');
+    });
+
+    it('не собирает предложения через пробел', () => {
+      expect(postProcessTranslation('你好。你好。再见。', 'Hi', 'zh')).toBe('你好。再见。');
+    });
+  });
+
+  describe('арабский', () => {
+    it('использует арабские запятую и вопросительный знак и не меняет регистр', () => {
+      expect(postProcessTranslation('مرحبا, كيف حالك?', 'Hello', 'ar')).toBe('مرحبا، كيف حالك؟');
+    });
+
+    it('не трогает запятую в числах', () => {
+      expect(postProcessTranslation('السعر 1,5', 'Price', 'ar')).toBe('السعر 1,5');
+    });
+  });
+});
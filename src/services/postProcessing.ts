@@ -0,0 +1,146 @@
+import { findLanguage, LanguageScript } from '../data/languages';
+
+// Оформление перевода по правилам языка перевода: у каждого языка свои знаки
+// конца предложения, пробелы вокруг знаков препинания и заглавные буквы
+interface TypographyRules {
+  // Чем разделяются предложения, когда текст собирается заново; в китайском и японском пробела нет
+  sentenceSeparator: string;
+  // Заглавная буква в начале предложения есть только в письменностях с регистром
+  capitalize: boolean;
+  // Пробелы и знаки препинания; continuesSentence — сегмент продолжает предложение с предыдущей строки
+  punctuate: (text: string, continuesSentence: boolean) => string;
+}
+
+// Латинская точка заканчивает предложение только перед пробелом, иначе это домен, версия или сокращение
+const SENTENCE_END = /([.!?]+(?=\s|$)|[。！？]+)/;
+const NBSP = '\u00A0';
+const CJK_CHARS = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}ー';
+const CASED_SCRIPTS: LanguageScript[] = ['Latn', 'Cyrl'];
+
+const FULL_WIDTH_MARKS: Record<string, string> = { ',': '，', '.': '。', '!': '！', '?': '？', ':': '：', ';': '；' };
+const ARABIC_MARKS: Record<string, string> = { ',': '،', ';': '؛', '?': '؟' };
+
+// Общие правила для латиницы и кириллицы
+const fixSpacing = (text: string): string =>
+  text
+    .replace(/\s+([.,:;!?])/g, '$1') // Убираем пробелы перед знаками препинания
+    .replace(/(\p{Ll}[.!?])(?=\p{Lu}\p{Ll})/gu, '$1 ') // Добавляем пробел после точки перед новым предложением
+    .replace(/\s{2,}/g, ' ') // Убираем множественные пробелы
+    .trim();
+
+// Во французском перед «: ; ! ?» и внутри кавычек-елочек ставится неразрывный пробел.
+// Двоеточие в ссылках и времени («http://», «10:30») не трогаем
+const fixFrenchSpacing = (text: string): string =>
+  fixSpacing(text)
+    .replace(/(?<=[^\s?!])([;!?]+)(?=\s|$|[»"')\]])/g, `${NBSP}$1`)
+    .replace(/(?<=[^\s\d]):(?=\s|$)/g, `${NBSP}:`)
+    .replace(/«\s*/g, `«${NBSP}`)
+    .replace(/\s*»/g, `${NBSP}»`);
+
+const addInvertedMark = (sentence: string, mark: string, inverted: string): string => {
+  if (sentence.includes(inverted) || !new RegExp(`\\${mark}["»”')]*$`).test(sentence)) {
+    return sentence;
+  }
+  return sentence.replace(/^(["«“(]*)/, `$1${inverted}`);
+};
+
+// В испанском вопрос и восклицание открываются перевернутыми знаками ¿ и ¡
+const fixSpanishMarks = (text: string, continuesSentence: boolean): string =>
+  fixSpacing(text)
+    .split(/(?<=[.!?…]["»”')]*)\s+/)
+    .map((sentence, index) =>
+      index === 0 && continuesSentence
+        ? sentence
+        : addInvertedMark(addInvertedMark(sentence, '?', '¿'), '!', '¡')
+    )
+    .join(' ');
+
+// Китайский и японский: полноширинные знаки препинания без пробелов вокруг них и между иероглифами
+const fixCjkPunctuation = (comma: string) => (text: string): string =>
+  text
+    .replace(/\.{3}/g, '…')
+    .replace(new RegExp(`([${CJK_CHARS}])\\s*([,.!?:;]+)(?![\\d/])`, 'gu'), (_, char: string, marks: string) =>
+      char + [...marks].map(mark => (mark === ',' ? comma : FULL_WIDTH_MARKS[mark])).join('')
+    )
+    .replace(/\s*([，、。！？：；])\s*/g, '$1')
+    .replace(new RegExp(`([${CJK_CHARS}])\\s+(?=[${CJK_CHARS}])`, 'gu'), '$1')
+    .trim();
+
+// Арабский: свои запятая, точка с запятой и вопросительный знак
+const fixArabicPunctuation = (text: string): string =>
+  fixSpacing(
+    text.replace(/(\p{Script=Arabic})\s*([,;?])(?!\d)/gu, (_, char: string, mark: string) => char + ARABIC_MARKS[mark])
+  );
+
+const LANGUAGE_RULES: Record<string, TypographyRules> = {
+  fr: { sentenceSeparator: ' ', capitalize: true, punctuate: fixFrenchSpacing },
+  es: { sentenceSeparator: ' ', capitalize: true, punctuate: fixSpanishMarks },
+  zh: { sentenceSeparator: '', capitalize: false, punctuate: fixCjkPunctuation('，') },
+  ja: { sentenceSeparator: '', capitalize: false, punctuate: fixCjkPunctuation('、') }
+};
+
+const SCRIPT_RULES: Partial<Record<LanguageScript, TypographyRules>> = {
+  Arab: { sentenceSeparator: ' ', capitalize: false, punctuate: fixArabicPunctuation }
+};
+
+const getRules = (toLang: string): TypographyRules => {
+  const language = findLanguage(toLang);
+  const rules = language && (LANGUAGE_RULES[language.code] ?? SCRIPT_RULES[language.script]);
+  return rules || {
+    sentenceSeparator: ' ',
+    // Для неизвестного языка сохраняем прежнее поведение
+    capitalize: !language || CASED_SCRIPTS.includes(language.script),
+    punctuate: fixSpacing
+  };
+};
+
+const removeDuplicateSentences = (text: string, separator: string): string => {
+  const sentences = text.split(SENTENCE_END).filter(s => s.trim());
+  const cleanSentences: string[] = [];
+  const seenSentences = new Set<string>();
+
+  for (let i = 0; i < sentences.length; i += 2) {
+    const sentence = sentences[i]?.trim();
+    const punctuation = sentences[i + 1] || '';
+
+    if (sentence) {
+      const normalizedSentence = sentence.toLowerCase().replace(/\s+/g, ' ');
+
+      if (!seenSentences.has(normalizedSentence)) {
+        seenSentences.add(normalizedSentence);
+        cleanSentences.push(sentence + punctuation);
+      }
+    }
+  }
+
+  return cleanSentences.join(separator).replace(/\s+/g, ' ').trim();
+};
+
+const fixCapitalization = (text: string, continuesSentence: boolean): string => {
+  const sentences = text.split(/([.!?]+(?:\s+|$))/);
+
+  for (let i = continuesSentence ? 2 : 0; i < sentences.length; i += 2) {
+    const sentence = sentences[i];
+    if (sentence && sentence.trim()) {
+      // Делаем первую букву заглавной, пропуская открывающие кавычки и скобки
+      sentences[i] = sentence.replace(/^([\s"«“„(]*)(\p{Ll})/u, (_, prefix: string, letter: string) =>
+        prefix + letter.toUpperCase()
+      );
+    }
+  }
+
+  return sentences.join('');
+};
+
+// Устраняет дубли предложений и оформляет перевод по правилам языка toLang
+export const postProcessTranslation = (text: string, source: string, toLang: string): string => {
+  const rules = getRules(toLang);
+  // Сегмент может продолжать предложение с предыдущей строки — тогда начало не трогаем
+  const continuesSentence = /^\P{L}*\p{Ll}/u.test(source);
+
+  let result = removeDuplicateSentences(text, rules.sentenceSeparator);
+  if (rules.capitalize) {
+    result = fixCapitalization(result, continuesSentence);
+  }
+  return rules.punctuate(result, continuesSentence);
+};
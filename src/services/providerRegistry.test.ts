@@ -0,0 +1,175 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ProviderRegistry } from './providerRegistry';
+import { RequestScheduler } from './requestScheduler';
+import { CancelledError } from './cancellation';
+import { createMockProvider, MockResponse } from './providers/mockProvider';
+import { ProviderHttpError, ProviderTimeoutError } from './providers/providerErrors';
+
+let nextId = 0;
+const registered: string[] = [];
+
+// Каждому тесту свой провайдер, чтобы паузы планировщика не переходили между тестами
+const registerMock = (options: { responses?: MockResponse[]; delay?: number; rateLimit?: number } = {}) => {
+  const provider = createMockProvider({ id: `mock-${nextId++}`, ...options });
+  ProviderRegistry.register(provider);
+  registered.push(provider.id);
+  return provider;
+};
+
+afterEach(() => {
+  registered.splice(0).forEach(id => ProviderRegistry.unregister(id));
+});
+
+describe('ProviderRegistry.translateWith', () => {
+  it('переводит через зарегистрированного провайдера и отмечает его исправным', async () => {
+    const provider = registerMock();
+
+    const result = await ProviderRegistry.translateWith(provider.id, 'Hello', 'en', 'ru');
+
+    expect(result).toEqual({ text: '[ru] Hello' });
+    expect(provider.calls).toEqual([{ text: 'Hello', fromLang: 'en', toLang: 'ru' }]);
+    expect(ProviderRegistry.get(provider.id)?.health.status).toBe('healthy');
+  });
+
+  it('повторяет запрос после 429', async () => {
+    const provider = registerMock({ responses: [new ProviderHttpError(429, 0), 'Привет'] });
+
+    const result = await ProviderRegistry.translateWith(provider.id, 'Hello', 'en', 'ru');
+
+    expect(result?.text).toBe('Привет');
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  it('повторяет запрос после ошибок сервера', async () => {
+    const provider = registerMock({
+      responses: [new ProviderHttpError(503, 0), new ProviderHttpError(502, 0), 'Привет']
+    });
+
+    const result = await ProviderRegistry.translateWith(provider.id, 'Hello', 'en', 'ru');
+
+    expect(result?.text).toBe('Привет');
+    expect(provider.calls).toHaveLength(3);
+  });
+
+  it('сдается после исчерпания повторов и отмечает провайдера неисправным', async () => {
+    const provider = registerMock({ responses: [new ProviderHttpError(500, 0)] });
+
+    await expect(ProviderRegistry.translateWith(provider.id, 'Hello', 'en', 'ru')).rejects.toBeInstanceOf(ProviderHttpError);
+
+    expect(provider.calls).toHaveLength(4);
+    expect(ProviderRegistry.get(provider.id)?.health.status).toBe('failing');
+  });
+
+  it('не повторяет запрос при прочих ошибках', async () => {
+    const provider = registerMock({ responses: [new Error('Неверный ключ')] });
+
+    await expect(ProviderRegistry.translateWith(provider.id, 'Hello', 'en', 'ru')).rejects.toThrow('Неверный ключ');
+
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  it('соблюдает лимит запросов в минуту', async () => {
+    // 600 запросов в минуту — не чаще одного раза в 100 мс
+    const provider = registerMock({ rateLimit: 600 });
+    const startedAt = Date.now();
+
+    await Promise.all([
+      ProviderRegistry.translateWith(provider.id, 'one', 'en', 'ru'),
+      ProviderRegistry.translateWith(provider.id, 'two', 'en', 'ru')
+    ]);
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90);
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  it('прерывает запрос при отмене, не считая провайдера неисправным', async () => {
+    const provider = registerMock({ delay: 5000 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(
+      ProviderRegistry.translateWith(provider.id, 'Hello', 'en', 'ru', controller.signal)
+    ).rejects.toBeInstanceOf(CancelledError);
+
+    expect(ProviderRegistry.get(provider.id)?.health.status).toBe('unknown');
+  });
+
+  it('прерывает паузу перед повтором при отмене', async () => {
+    const provider = registerMock({ responses: [new ProviderHttpError(429, 5000), 'Привет'] });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(
+      ProviderRegistry.translateWith(provider.id, 'Hello', 'en', 'ru', controller.signal)
+    ).rejects.toBeInstanceOf(CancelledError);
+
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  it('не обращается к провайдеру, если операция уже отменена', async () => {
+    const provider = registerMock();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      ProviderRegistry.translateWith(provider.id, 'Hello', 'en', 'ru', controller.signal)
+    ).rejects.toBeInstanceOf(CancelledError);
+
+    expect(provider.calls).toHaveLength(0);
+  });
+});
+
+describe('ProviderRegistry.register', () => {
+  const STORAGE_KEY = 'venom-translator:providers';
+
+  afterEach(() => {
+    localStorage.removeItem(STORAGE_KEY);
+  });
+
+  // Сохраненные настройки читаются при загрузке модуля, поэтому реестр загружается заново
+  const loadRegistry = async (stored: object) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    vi.resetModules();
+    return (await import('./providerRegistry')).ProviderRegistry;
+  };
+
+  it('добавляет к сохраненному списку языки, появившиеся позже', async () => {
+    const registry = await loadRegistry({
+      'mock-languages': { config: { languages: ['en', 'ru'] }, enabled: true, priority: 0 }
+    });
+
+    registry.register(createMockProvider({ id: 'mock-languages', languages: ['en', 'ru', 'ar'] }));
+
+    expect(registry.get('mock-languages')?.config.languages).toEqual(['en', 'ru', 'ar']);
+  });
+
+  it('не возвращает языки, которые пользователь убрал из списка', async () => {
+    const registry = await loadRegistry({
+      'mock-languages': { config: { languages: ['en'] }, defaultLanguages: ['en', 'ru'], enabled: true, priority: 0 }
+    });
+
+    registry.register(createMockProvider({ id: 'mock-languages', languages: ['en', 'ru', 'ar'] }));
+
+    expect(registry.get('mock-languages')?.config.languages).toEqual(['en', 'ar']);
+  });
+});
+
+describe('RequestScheduler.run', () => {
+  it('повторяет запрос после таймаута с паузой', async () => {
+    let attempts = 0;
+    const startedAt = Date.now();
+
+    const result = await RequestScheduler.run('timeout-test', async () => {
+      attempts++;
+      if (attempts === 1) {
+        throw new ProviderTimeoutError(100);
+      }
+      return 'ok';
+    }, { retries: 1 });
+
+    expect(result).toBe('ok');
+    expect(attempts).toBe(2);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(450);
+  });
+});
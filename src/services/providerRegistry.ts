@@ -0,0 +1,316 @@
+import { builtInProviders } from './providers';
+import { ProviderTimeoutError } from './providers/providerErrors';
+import { RequestScheduler } from './requestScheduler';
+import { CancelledError, isCancelled } from './cancellation';
+
+// Настройки конкретного провайдера, которые можно менять во время работы
+export interface ProviderConfig {
+  endpoint: string;
+  apiKey: string;
+  // Таймаут запроса в миллисекундах
+  timeout: number;
+  // Допустимое число запросов в минуту, 0 — без ограничения
+  rateLimit: number;
+  // Пустой список означает, что провайдер поддерживает любые языки
+  languages: string[];
+}
+
+// Перевод с вариантами; провайдер может вернуть и просто строку
+export interface ProviderTranslation {
+  text: string;
+  alternatives?: string[];
+}
+
+export interface TranslationProvider {
+  id: string;
+  name: string;
+  defaultConfig: ProviderConfig;
+  translate(
+    text: string,
+    fromLang: string,
+    toLang: string,
+    config: ProviderConfig,
+    signal?: AbortSignal
+  ): Promise<string | ProviderTranslation | null>;
+  detectLanguage?(text: string, config: ProviderConfig, signal?: AbortSignal): Promise<string | null>;
+}
+
+export interface ProviderHealth {
+  status: 'unknown' | 'healthy' | 'failing';
+  checkedAt?: Date;
+  latency?: number;
+  error?: string;
+}
+
+export interface RegisteredProvider {
+  provider: TranslationProvider;
+  config: ProviderConfig;
+  enabled: boolean;
+  priority: number;
+  health: ProviderHealth;
+}
+
+// То, что сохраняется в localStorage для каждого провайдера
+interface StoredProviderSettings {
+  config: Partial<ProviderConfig>;
+  // Языки провайдера по умолчанию на момент сохранения: по ним видно, какие языки появились позже
+  defaultLanguages?: string[];
+  enabled: boolean;
+  priority: number;
+}
+
+export interface RegisterOptions {
+  enabled?: boolean;
+  priority?: number;
+  config?: Partial<ProviderConfig>;
+}
+
+// Реестр провайдеров перевода: порядок, включение и настройки задаются во время работы
+export class ProviderRegistry {
+  private static readonly STORAGE_KEY = 'venom-translator:providers';
+
+  private static listeners = new Set<() => void>();
+  private static storedSettings = this.loadSettings();
+  private static providers = new Map<string, RegisteredProvider>();
+
+  static {
+    builtInProviders.forEach((provider, index) => this.register(provider, { priority: index * 10 }));
+  }
+
+  static register(provider: TranslationProvider, options: RegisterOptions = {}): void {
+    const existing = this.providers.get(provider.id);
+    const stored = this.storedSettings[provider.id];
+
+    // Сохраненные пользователем настройки важнее значений по умолчанию
+    this.providers.set(provider.id, {
+      provider,
+      config: {
+        ...provider.defaultConfig,
+        ...options.config,
+        ...stored?.config,
+        ...(stored?.config.languages && { languages: this.restoreLanguages(provider, stored) })
+      },
+      enabled: stored?.enabled ?? options.enabled ?? existing?.enabled ?? true,
+      priority: stored?.priority ?? options.priority ?? existing?.priority ?? this.nextPriority(),
+      health: existing?.health ?? { status: 'unknown' }
+    });
+    this.notify();
+  }
+
+  static unregister(id: string): boolean {
+    const removed = this.providers.delete(id);
+    this.notify();
+    return removed;
+  }
+
+  static get(id: string): RegisteredProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  static setEnabled(id: string, enabled: boolean): void {
+    const entry = this.requireProvider(id);
+    entry.enabled = enabled;
+    this.saveSettings();
+  }
+
+  static configure(id: string, config: Partial<ProviderConfig>): void {
+    const entry = this.requireProvider(id);
+    entry.config = { ...entry.config, ...config };
+    this.saveSettings();
+  }
+
+  static setPriority(id: string, priority: number): void {
+    const entry = this.requireProvider(id);
+    entry.priority = priority;
+    this.saveSettings();
+  }
+
+  // Задает порядок опроса: провайдеры из списка идут первыми в указанном порядке
+  static setOrder(ids: string[]): void {
+    const rest = this.getProviders().filter(entry => !ids.includes(entry.provider.id));
+    const ordered = ids
+      .map(id => this.providers.get(id))
+      .filter((entry): entry is RegisteredProvider => Boolean(entry));
+
+    [...ordered, ...rest].forEach((entry, index) => {
+      entry.priority = index * 10;
+    });
+    this.saveSettings();
+  }
+
+  // Возвращает настройки провайдера к значениям по умолчанию
+  static reset(id: string): void {
+    const entry = this.requireProvider(id);
+    entry.config = { ...entry.provider.defaultConfig };
+    this.saveSettings();
+  }
+
+  static getProviders(): RegisteredProvider[] {
+    return [...this.providers.values()].sort((a, b) => a.priority - b.priority);
+  }
+
+  // Включенные провайдеры, которые умеют работать с указанной языковой парой
+  static getActiveProviders(fromLang: string, toLang: string): RegisteredProvider[] {
+    return this.getProviders().filter(entry =>
+      entry.enabled && this.supportsLanguages(entry.config, fromLang, toLang)
+    );
+  }
+
+  // Вызывает провайдера через планировщик: с лимитом частоты, таймаутом и повторами при 429/5xx
+  static async translateWith(
+    id: string,
+    text: string,
+    fromLang: string,
+    toLang: string,
+    signal?: AbortSignal
+  ): Promise<ProviderTranslation | null> {
+    const entry = this.requireProvider(id);
+    const startedAt = performance.now();
+
+    try {
+      const result = await RequestScheduler.run(
+        id,
+        () => this.requestTranslation(entry, text, fromLang, toLang, signal),
+        { rateLimit: entry.config.rateLimit, signal }
+      );
+      if (result?.text) {
+        this.reportHealth(id, { status: 'healthy', latency: performance.now() - startedAt });
+      } else {
+        this.reportHealth(id, { status: 'failing', error: 'Пустой ответ' });
+      }
+      return result;
+    } catch (error) {
+      // Отмена пользователем не говорит о состоянии провайдера
+      if (!isCancelled(error)) {
+        this.reportHealth(id, { status: 'failing', error: (error as Error).message });
+      }
+      throw error;
+    }
+  }
+
+  // Проверка соединения коротким тестовым переводом
+  static async testConnection(id: string): Promise<ProviderHealth> {
+    try {
+      await this.translateWith(id, 'Hello', 'en', 'ru');
+    } catch {
+      // Ошибка уже записана в состояние провайдера
+    }
+    return this.requireProvider(id).health;
+  }
+
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Одна попытка перевода, прерываемая по таймауту провайдера или отмене
+  private static async requestTranslation(
+    entry: RegisteredProvider,
+    text: string,
+    fromLang: string,
+    toLang: string,
+    signal?: AbortSignal
+  ): Promise<ProviderTranslation | null> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), entry.config.timeout);
+    const handleCancel = () => controller.abort();
+    signal?.addEventListener('abort', handleCancel, { once: true });
+
+    try {
+      const result = await entry.provider.translate(text, fromLang, toLang, entry.config, controller.signal);
+      return typeof result === 'string' ? { text: result } : result;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new CancelledError();
+      }
+      throw controller.signal.aborted ? new ProviderTimeoutError(entry.config.timeout) : error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', handleCancel);
+    }
+  }
+
+  private static reportHealth(id: string, health: Omit<ProviderHealth, 'checkedAt'>): void {
+    const entry = this.providers.get(id);
+    if (!entry) {
+      return;
+    }
+
+    entry.health = { ...health, checkedAt: new Date() };
+    this.notify();
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private static loadSettings(): Record<string, StoredProviderSettings> {
+    try {
+      const raw = localStorage.getItem(this.STORAGE_KEY);
+      return raw ? JSON.parse(raw) : {};
+    } catch (error) {
+      console.warn('Failed to load provider settings:', error);
+      return {};
+    }
+  }
+
+  private static saveSettings(): void {
+    // Настройки еще не зарегистрированных провайдеров не теряем
+    this.storedSettings = {
+      ...this.storedSettings,
+      ...Object.fromEntries(
+        [...this.providers.values()].map(entry => [entry.provider.id, {
+          config: entry.config,
+          defaultLanguages: entry.provider.defaultConfig.languages,
+          enabled: entry.enabled,
+          priority: entry.priority
+        }])
+      )
+    };
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.storedSettings));
+    } catch (error) {
+      console.warn('Failed to save provider settings:', error);
+    }
+    this.notify();
+  }
+
+  // Сохраненный список дополняется языками, которые добавились в провайдер после сохранения.
+  // Настройки без defaultLanguages сохранены до появления этого поля — тогда список совпадал с прежним по умолчанию
+  private static restoreLanguages(provider: TranslationProvider, stored: StoredProviderSettings): string[] {
+    const saved = stored.config.languages ?? [];
+    // Пустой список — любые языки, дополнять нечего
+    if (saved.length === 0) {
+      return saved;
+    }
+
+    const known = new Set(stored.defaultLanguages ?? saved);
+    const added = provider.defaultConfig.languages.filter(code => !known.has(code) && !saved.includes(code));
+    return [...saved, ...added];
+  }
+
+  private static supportsLanguages(config: ProviderConfig, fromLang: string, toLang: string): boolean {
+    if (config.languages.length === 0) {
+      return true;
+    }
+
+    const supportsSource = fromLang === 'auto' || config.languages.includes(fromLang);
+    return supportsSource && config.languages.includes(toLang);
+  }
+
+  private static requireProvider(id: string): RegisteredProvider {
+    const entry = this.providers.get(id);
+    if (!entry) {
+      throw new Error(`Провайдер перевода "${id}" не зарегистрирован`);
+    }
+    return entry;
+  }
+
+  private static nextPriority(): number {
+    const priorities = [...this.providers.values()].map(entry => entry.priority);
+    return priorities.length > 0 ? Math.max(...priorities) + 10 : 0;
+  }
+}
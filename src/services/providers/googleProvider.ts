@@ -0,0 +1,107 @@
+import { TranslationProvider } from '../providerRegistry';
+import { assertRetryableStatus } from './providerErrors';
+import { getProviderLanguages } from '../../data/languages';
+
+const MAX_ALTERNATIVES = 3;
+
+// Блок data[5] (dt=at): для каждого предложения — список вариантов [текст, оценка, ...].
+// Варианты для всего фрагмента собираются из k-х вариантов каждого предложения
+const parseAlternatives = (data: unknown[]): string[] => {
+  if (!Array.isArray(data[5])) {
+    return [];
+  }
+
+  const sentences = (data[5] as unknown[][])
+    .map(entry => (Array.isArray(entry?.[2]) ? (entry[2] as unknown[][]) : []))
+    .map(variants => variants.map(variant => variant?.[0]).filter((text): text is string => typeof text === 'string'))
+    .filter(variants => variants.length > 0);
+
+  const alternatives: string[] = [];
+  const count = Math.max(0, ...sentences.map(variants => variants.length));
+  for (let k = 1; k < Math.min(count, MAX_ALTERNATIVES + 1); k++) {
+    alternatives.push(sentences.map(variants => variants[k] ?? variants[0]).join(' '));
+  }
+  return alternatives;
+};
+
+// Неофициальный endpoint Google Translate
+export const googleProvider: TranslationProvider = {
+  id: 'google',
+  name: 'Google Translate',
+  defaultConfig: {
+    endpoint: 'https://translate.googleapis.com/translate_a/single',
+    apiKey: '',
+    timeout: 10000,
+    rateLimit: 60,
+    languages: getProviderLanguages('google')
+  },
+
+  async translate(text, fromLang, toLang, config, signal) {
+    const params = new URLSearchParams({
+      client: 'gtx',
+      sl: fromLang === 'auto' ? 'auto' : fromLang,
+      tl: toLang,
+      dt: 't',
+      q: text
+    });
+    // Второй параметр dt запрашивает альтернативные варианты перевода
+    params.append('dt', 'at');
+
+    if (config.apiKey) {
+      params.set('key', config.apiKey);
+    }
+
+    const response = await fetch(`${config.endpoint}?${params}`, {
+      method: 'GET',
+      signal,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.5',
+        'Accept-Encoding': 'gzip, deflate, br',
+        'DNT': '1',
+        'Connection': 'keep-alive',
+        'Upgrade-Insecure-Requests': '1'
+      }
+    });
+
+    assertRetryableStatus(response);
+    if (response.ok) {
+      const data = await response.json();
+      if (data && data[0] && Array.isArray(data[0])) {
+        const translation = (data[0] as unknown[][])
+          .filter(item => item && item[0])
+          .map(item => item[0])
+          .join('');
+        return { text: translation, alternatives: parseAlternatives(data) };
+      }
+    }
+    return null;
+  },
+
+  async detectLanguage(text, config, signal) {
+    const params = new URLSearchParams({
+      client: 'gtx',
+      sl: 'auto',
+      tl: 'en',
+      dt: 't',
+      q: text
+    });
+
+    const response = await fetch(`${config.endpoint}?${params}`, {
+      signal,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+      }
+    });
+
+    assertRetryableStatus(response);
+    if (response.ok) {
+      const data = await response.json();
+      if (data && typeof data[2] === 'string') {
+        return data[2];
+      }
+    }
+    return null;
+  }
+};
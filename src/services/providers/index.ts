@@ -0,0 +1,9 @@
+import { googleProvider } from './googleProvider';
+import { myMemoryProvider } from './myMemoryProvider';
+import { libreTranslateProvider } from './libreTranslateProvider';
+
+export { googleProvider, myMemoryProvider, libreTranslateProvider };
+export { createLibreTranslateProvider } from './libreTranslateProvider';
+
+// Порядок в массиве задает исходный порядок опроса провайдеров
+export const builtInProviders = [googleProvider, myMemoryProvider, libreTranslateProvider];
@@ -0,0 +1,67 @@
+import { TranslationProvider } from '../providerRegistry';
+import { assertRetryableStatus } from './providerErrors';
+import { getProviderLanguages } from '../../data/languages';
+
+interface LibreTranslateOptions {
+  id: string;
+  name: string;
+  endpoint: string;
+  apiKey?: string;
+  timeout?: number;
+  rateLimit?: number;
+  languages?: string[];
+}
+
+// Фабрика нужна, чтобы подключать собственные инстансы LibreTranslate наравне с публичным
+export const createLibreTranslateProvider = ({
+  id,
+  name,
+  endpoint,
+  apiKey = '',
+  timeout = 15000,
+  // Публичные инстансы ограничивают число запросов в минуту
+  rateLimit = 20,
+  languages = []
+}: LibreTranslateOptions): TranslationProvider => ({
+  id,
+  name,
+  defaultConfig: { endpoint, apiKey, timeout, rateLimit, languages },
+
+  async translate(text, fromLang, toLang, config, signal) {
+    const response = await fetch(config.endpoint, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'VenomTranslator/1.0'
+      },
+      body: JSON.stringify({
+        q: text,
+        source: fromLang === 'auto' ? 'auto' : fromLang,
+        target: toLang,
+        format: 'text',
+        alternatives: 3,
+        ...(config.apiKey ? { api_key: config.apiKey } : {})
+      })
+    });
+
+    assertRetryableStatus(response);
+    if (response.ok) {
+      const data = await response.json();
+      if (data.translatedText) {
+        return {
+          text: data.translatedText,
+          alternatives: Array.isArray(data.alternatives) ? data.alternatives : []
+        };
+      }
+    }
+    return null;
+  }
+});
+
+export const libreTranslateProvider = createLibreTranslateProvider({
+  id: 'libretranslate',
+  name: 'LibreTranslate',
+  endpoint: 'https://libretranslate.de/translate',
+  languages: getProviderLanguages('libretranslate')
+});
@@ -0,0 +1,64 @@
+import { ProviderTranslation, TranslationProvider } from '../providerRegistry';
+
+// Ответ на очередной запрос; ошибка выбрасывается, как при сбое настоящего провайдера
+export type MockResponse = string | ProviderTranslation | null | Error;
+
+export interface MockProvider extends TranslationProvider {
+  // Запросы, которые получил провайдер, в порядке поступления
+  calls: Array<{ text: string; fromLang: string; toLang: string }>;
+}
+
+interface MockProviderOptions {
+  id?: string;
+  name?: string;
+  // Ответы по порядку запросов, последний повторяется; без ответов текст возвращается с пометкой языка
+  responses?: MockResponse[];
+  // Задержка ответа в миллисекундах; прерывается по signal, как настоящий fetch
+  delay?: number;
+  timeout?: number;
+  rateLimit?: number;
+  languages?: string[];
+}
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
+
+// Провайдер без сети для тестов: отвечает заранее заданными ответами и запоминает запросы
+export const createMockProvider = ({
+  id = 'mock',
+  name = 'Mock',
+  responses = [],
+  delay = 0,
+  timeout = 1000,
+  rateLimit = 0,
+  languages = []
+}: MockProviderOptions = {}): MockProvider => {
+  const calls: MockProvider['calls'] = [];
+
+  return {
+    id,
+    name,
+    calls,
+    defaultConfig: { endpoint: '', apiKey: '', timeout, rateLimit, languages },
+
+    async translate(text, fromLang, toLang, _config, signal) {
+      calls.push({ text, fromLang, toLang });
+      if (delay > 0) {
+        await wait(delay, signal);
+      }
+
+      const response = responses.length > 0
+        ? responses[Math.min(calls.length, responses.length) - 1]
+        : `[${toLang}] ${text}`;
+      if (response instanceof Error) {
+        throw response;
+      }
+      return response;
+    }
+  };
+};
@@ -0,0 +1,50 @@
+import { TranslationProvider } from '../providerRegistry';
+import { assertRetryableStatus } from './providerErrors';
+import { getProviderLanguages } from '../../data/languages';
+
+export const myMemoryProvider: TranslationProvider = {
+  id: 'mymemory',
+  name: 'MyMemory',
+  defaultConfig: {
+    endpoint: 'https://api.mymemory.translated.net/get',
+    apiKey: '',
+    timeout: 10000,
+    rateLimit: 30,
+    languages: getProviderLanguages('mymemory')
+  },
+
+  async translate(text, fromLang, toLang, config, signal) {
+    const params = new URLSearchParams({
+      q: text,
+      langpair: `${fromLang}|${toLang}`,
+      de: 'translator@venom.app',
+      mt: '1'
+    });
+
+    if (config.apiKey) {
+      params.set('key', config.apiKey);
+    }
+
+    const response = await fetch(`${config.endpoint}?${params}`, {
+      signal,
+      headers: {
+        'User-Agent': 'VenomTranslator/1.0'
+      }
+    });
+
+    assertRetryableStatus(response);
+    if (response.ok) {
+      const data = await response.json();
+      if (data.responseStatus === 200 && data.responseData?.translatedText) {
+        const translation: string = data.responseData.translatedText;
+        // Совпадения из памяти переводов MyMemory служат вариантами
+        const matches: unknown[] = Array.isArray(data.matches) ? data.matches : [];
+        const alternatives = matches
+          .map(match => (match as { translation?: unknown }).translation)
+          .filter((item): item is string => typeof item === 'string' && item !== translation);
+        return { text: translation, alternatives: [...new Set(alternatives)].slice(0, 3) };
+      }
+    }
+    return null;
+  }
+};
@@ -0,0 +1,39 @@
+// Ошибки провайдеров, по которым планировщик решает, стоит ли повторять запрос
+export class ProviderHttpError extends Error {
+  constructor(
+    readonly status: number,
+    // Пауза из заголовка Retry-After в миллисекундах
+    readonly retryAfter: number | null = null
+  ) {
+    super(status === 429 ? 'Превышен лимит запросов (HTTP 429)' : `Ошибка сервера (HTTP ${status})`);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+export class ProviderTimeoutError extends Error {
+  constructor(timeout: number) {
+    super(`Таймаут ${timeout} мс`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Лимиты и ошибки сервера превращаем в исключения, остальные ответы разбирает провайдер
+export const assertRetryableStatus = (response: Response): void => {
+  if (response.status === 429 || response.status >= 500) {
+    throw new ProviderHttpError(response.status, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+};
@@ -0,0 +1,115 @@
+import { ProviderHttpError, ProviderTimeoutError } from './providers/providerErrors';
+import { CancelledError, cancellable, throwIfCancelled } from './cancellation';
+
+export interface ScheduleOptions {
+  // Не больше указанного числа запросов в минуту к одному ключу; 0 — без ограничения
+  rateLimit?: number;
+  retries?: number;
+  // Отмена снимает запрос из очереди и прерывает паузы между повторами
+  signal?: AbortSignal;
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Планировщик запросов к провайдерам: общий лимит параллельности,
+// лимит частоты для каждого провайдера и повтор с экспоненциальной паузой
+export class RequestScheduler {
+  static readonly MAX_CONCURRENT = 4;
+  private static readonly DEFAULT_RETRIES = 3;
+  private static readonly BASE_DELAY = 500;
+  private static readonly MAX_DELAY = 30000;
+
+  private static active = 0;
+  private static waiting: Array<() => void> = [];
+  // Ближайшее время, когда к провайдеру можно отправить следующий запрос
+  private static nextSlot = new Map<string, number>();
+
+  static async run<T>(key: string, task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const retries = options.retries ?? this.DEFAULT_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForSlot(key, options.rateLimit ?? 0, options.signal);
+      await this.acquire(options.signal);
+
+      try {
+        return await task();
+      } catch (error) {
+        if (options.signal?.aborted) {
+          throw new CancelledError();
+        }
+        if (attempt >= retries || !this.isRetryable(error)) {
+          throw error;
+        }
+
+        // Остальные запросы к этому провайдеру тоже ждут окончания паузы
+        const delay = this.getRetryDelay(error, attempt);
+        this.nextSlot.set(key, Math.max(this.nextSlot.get(key) ?? 0, Date.now() + delay));
+      } finally {
+        this.release();
+      }
+    }
+  }
+
+  private static isRetryable(error: unknown): boolean {
+    if (error instanceof ProviderTimeoutError) {
+      return true;
+    }
+    return error instanceof ProviderHttpError && (error.status === 429 || error.status >= 500);
+  }
+
+  private static getRetryDelay(error: unknown, attempt: number): number {
+    if (error instanceof ProviderHttpError && error.retryAfter !== null) {
+      return Math.min(error.retryAfter, this.MAX_DELAY);
+    }
+
+    // Случайная добавка разводит повторы параллельных запросов во времени
+    const exponential = this.BASE_DELAY * 2 ** attempt;
+    return Math.min(exponential + Math.random() * this.BASE_DELAY, this.MAX_DELAY);
+  }
+
+  private static async waitForSlot(key: string, rateLimit: number, signal?: AbortSignal): Promise<void> {
+    throwIfCancelled(signal);
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(key) ?? 0);
+    const interval = rateLimit > 0 ? 60000 / rateLimit : 0;
+
+    this.nextSlot.set(key, slot + interval);
+    if (slot > now) {
+      await cancellable(sleep(slot - now), signal);
+    }
+  }
+
+  private static async acquire(signal?: AbortSignal): Promise<void> {
+    throwIfCancelled(signal);
+    if (this.active < this.MAX_CONCURRENT) {
+      this.active++;
+      return;
+    }
+
+    // Место передается напрямую из release, счетчик не меняется
+    let resolveSlot: () => void = () => {};
+    const slot = new Promise<void>(resolve => {
+      resolveSlot = resolve;
+      this.waiting.push(resolve);
+    });
+
+    // Отмененный запрос покидает очередь; если место уже передано, сразу его освобождает
+    await cancellable(slot, signal, () => {
+      const index = this.waiting.indexOf(resolveSlot);
+      if (index === -1) {
+        this.release();
+      } else {
+        this.waiting.splice(index, 1);
+      }
+    });
+  }
+
+  private static release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { joinSegments, segmentText, splitSegmentsBySentence } from './segmentation';
+
+const bySentence = (text: string) => splitSegmentsBySentence(segmentText(text, 5000), () => true).segments;
+
+describe('segmentText', () => {
+  it.each([
+    'Hello world',
+    '  - First item\n  - Second item\r\n\n\t> Quote with tab\t\n',
+    '# Title\n\n1) One\n2) Two\n---\n42\n',
+    '// Comment in code\n/* Block */\n-- SQL comment\n; ini comment',
+    '- [x] Done\n- [ ] Todo   \n\n\n'
+  ])('собирает исходный текст без изменений при тождественном переводе: %j', (text) => {
+    const segmented = segmentText(text, 5000);
+
+    expect(joinSegments(segmented, segmented.segments)).toBe(text);
+  });
+
+  it('оставляет переводчику только текст без отступов, маркеров и комментариев', () => {
+    const { segments } = segmentText('  - First item\n# Title\n// Comment\n---\n42', 5000);
+
+    expect(segments).toEqual(['First item', 'Title', 'Comment']);
+  });
+
+  it('режет длинную строку по предложениям и сохраняет пробелы между ними', () => {
+    const text = 'First sentence here.  Second one!\tThird one?';
+    const segmented = segmentText(text, 15);
+
+    expect(segmented.segments).toEqual(['First sentence here.', 'Second one!', 'Third one?']);
+    expect(joinSegments(segmented, segmented.segments)).toBe(text);
+  });
+
+  it('объединяет короткие предложения в фрагменты не длиннее лимита', () => {
+    const { segments } = segmentText('One. Two. Three. Four.', 10);
+
+    expect(segments).toEqual(['One. Two.', 'Three.', 'Four.']);
+  });
+});
+
+describe('splitSegmentsBySentence', () => {
+  it('не разрывает предложение после сокращений', () => {
+    expect(bySentence('Mr. Smith met Dr. Brown, i.e. the dentist. Then they left.')).toEqual([
+      'Mr. Smith met Dr. Brown, i.e. the dentist.',
+      'Then they left.'
+    ]);
+    expect(bySentence('Это ул. Ленина, т.е. центр, и т.д. Дальше парк.')).toEqual([
+      'Это ул. Ленина, т.е. центр, и т.д. Дальше парк.'
+    ]);
+  });
+
+  it('не разрывает десятичные числа и версии', () => {
+    expect(bySentence('Version 2.5 costs 3.99 dollars. Buy it now.')).toEqual([
+      'Version 2.5 costs 3.99 dollars.',
+      'Buy it now.'
+    ]);
+  });
+
+  it('оставляет закрывающие кавычки и скобки в конце предложения', () => {
+    expect(bySentence('He said "Stop!" Then (quietly.) «Всё.» Конец')).toEqual([
+      'He said "Stop!"',
+      'Then (quietly.)',
+      '«Всё.»',
+      'Конец'
+    ]);
+  });
+
+  it('делит только выбранные сегменты и сохраняет разделители', () => {
+    const text = '- One. Two.\n- Three. Four.\n';
+    const segmented = splitSegmentsBySentence(segmentText(text, 5000), segment => segment.startsWith('One'));
+
+    expect(segmented.segments).toEqual(['One.', 'Two.', 'Three. Four.']);
+    expect(segmented.separators).toEqual(['- ', ' ', '\n- ', '\n']);
+    expect(joinSegments(segmented, segmented.segments)).toBe(text);
+  });
+});
+
+describe('joinSegments', () => {
+  it('подставляет переводы между исходными разделителями', () => {
+    const segmented = segmentText('  * Hello\r\n\t* World  \n', 5000);
+
+    expect(joinSegments(segmented, ['Привет', 'Мир'])).toBe('  * Привет\r\n\t* Мир  \n');
+  });
+
+  it('собирает только первые сегменты, пока остальные не готовы', () => {
+    const segmented = segmentText('- One\n- Two\n- Three', 5000);
+
+    expect(joinSegments(segmented, ['Один'], 1)).toBe('- Один');
+    expect(joinSegments(segmented, ['Один', 'Два'], 2)).toBe('- Один\n- Два');
+  });
+});
@@ -0,0 +1,133 @@
+// Разбиение текста на переводимые сегменты с точным сохранением всего, что между ними:
+// переводов строк, отступов, табуляций, маркеров списков и комментариев
+export interface SegmentedText {
+  segments: string[];
+  // separators[i] стоит перед segments[i], последний элемент — хвост текста
+  separators: string[];
+}
+
+// Служебное начало строки: отступ, маркеры списков, цитаты, заголовки и комментарии в коде
+const LINE_PREFIX = /^[ \t]*(?:(?:[-*+•◦▪‣·–—]|\[[ xX]\]|\d+[.)]|[a-zA-Z][.)]|>|#{1,6}|\/\/+|\/\*+|--|;+)[ \t]+|>[ \t]*)*/;
+
+const ABBREVIATION = /(?:^|[\s(])(?:Mr|Mrs|Ms|Dr|Prof|Inc|Ltd|Co|Corp|etc|vs|i\.e|e\.g|a\.m|p\.m|U\.S|U\.K|Ph\.D|B\.A|M\.A|т\.е|т\.д|т\.п|др|г|гг|им|ул|стр|см)\.$/i;
+
+// Границы предложений вместе с пробелами, которые их разделяют
+const SENTENCE_BOUNDARY = /(?<=[.!?…。！？]+["'»”)\]]*)(\s+)/;
+
+const splitSentences = (text: string): { sentences: string[]; gaps: string[] } => {
+  const parts = text.split(SENTENCE_BOUNDARY);
+  const sentences: string[] = [parts[0]];
+  const gaps: string[] = [];
+
+  for (let i = 1; i < parts.length; i += 2) {
+    // После сокращения предложение не заканчивается
+    if (ABBREVIATION.test(sentences[sentences.length - 1])) {
+      sentences[sentences.length - 1] += parts[i] + parts[i + 1];
+    } else {
+      gaps.push(parts[i]);
+      sentences.push(parts[i + 1]);
+    }
+  }
+
+  return { sentences, gaps };
+};
+
+class SegmentCollector {
+  readonly segments: string[] = [];
+  readonly separators: string[] = [''];
+
+  separator(text: string): void {
+    this.separators[this.separators.length - 1] += text;
+  }
+
+  segment(text: string): void {
+    this.segments.push(text);
+    this.separators.push('');
+  }
+}
+
+// Длинные строки режем по предложениям, объединяя их в фрагменты не длиннее maxLength
+const addLineContent = (collector: SegmentCollector, content: string, maxLength: number): void => {
+  if (content.length <= maxLength) {
+    collector.segment(content);
+    return;
+  }
+
+  const { sentences, gaps } = splitSentences(content);
+  let current = sentences[0];
+
+  for (let i = 1; i < sentences.length; i++) {
+    if ((current + gaps[i - 1] + sentences[i]).length <= maxLength) {
+      current += gaps[i - 1] + sentences[i];
+    } else {
+      collector.segment(current);
+      collector.separator(gaps[i - 1]);
+      current = sentences[i];
+    }
+  }
+
+  collector.segment(current);
+};
+
+export const segmentText = (text: string, maxLength: number): SegmentedText => {
+  const collector = new SegmentCollector();
+
+  for (const part of text.split(/(\r?\n)/)) {
+    if (part === '\n' || part === '\r\n') {
+      collector.separator(part);
+      continue;
+    }
+
+    const prefix = part.match(LINE_PREFIX)?.[0] ?? '';
+    const rest = part.slice(prefix.length);
+    const trailing = rest.match(/\s*$/)![0];
+    const content = rest.slice(0, rest.length - trailing.length);
+
+    // Строки без букв (пустые, разделители, числа) переносим как есть
+    if (!/\p{L}/u.test(content)) {
+      collector.separator(part);
+      continue;
+    }
+
+    collector.separator(prefix);
+    addLineContent(collector, content, maxLength);
+    collector.separator(trailing);
+  }
+
+  return { segments: collector.segments, separators: collector.separators };
+};
+
+// Выбранные сегменты дополнительно делятся по предложениям, разделители между ними сохраняются
+export const splitSegmentsBySentence = (
+  { segments, separators }: SegmentedText,
+  shouldSplit: (segment: string) => boolean
+): SegmentedText => {
+  const collector = new SegmentCollector();
+
+  segments.forEach((segment, index) => {
+    collector.separator(separators[index]);
+    if (!shouldSplit(segment)) {
+      collector.segment(segment);
+      return;
+    }
+
+    const { sentences, gaps } = splitSentences(segment);
+    sentences.forEach((sentence, i) => {
+      if (i > 0) collector.separator(gaps[i - 1]);
+      collector.segment(sentence);
+    });
+  });
+  collector.separator(separators[segments.length]);
+
+  return { segments: collector.segments, separators: collector.separators };
+};
+
+// count ограничивает сборку первыми сегментами — так показывается уже готовое начало текста
+export const joinSegments = (
+  { separators }: SegmentedText,
+  translations: string[],
+  count = separators.length
+): string =>
+  separators
+    .slice(0, count)
+    .reduce((result, separator, index) => result + separator + (translations[index] ?? ''), '');
@@ -0,0 +1,171 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TranslationCache } from './translationCache';
+import { openDatabase, STORES, transactionDone } from './database';
+
+const HOUR = 3600 * 1000;
+const DEFAULT_SETTINGS = TranslationCache.getSettings();
+
+// Размер записи считается по 2 байта на символ: 25 + 25 символов — 100 байт
+const source = (name: string) => name.padEnd(25, '.');
+const translation = (name: string) => name.toUpperCase().padEnd(25, '.');
+
+let now = 0;
+const setNow = (time: number) => {
+  now = time;
+};
+
+beforeEach(async () => {
+  setNow(1_000_000);
+  vi.spyOn(Date, 'now').mockImplementation(() => now);
+
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.cache, 'readwrite');
+  transaction.objectStore(STORES.cache).clear();
+  await transactionDone(transaction);
+  // Обнуляет счетчики попаданий и промахов
+  await TranslationCache.clear();
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await TranslationCache.configure(DEFAULT_SETTINGS);
+  localStorage.clear();
+});
+
+describe('TranslationCache.lookup', () => {
+  it('считает промахи и попадания', async () => {
+    expect(await TranslationCache.lookup(['google'], 'en', 'ru', 'Hello')).toBeNull();
+
+    await TranslationCache.set('google', 'en', 'ru', 'Hello', 'Привет', ['Здравствуйте']);
+    const hit = await TranslationCache.lookup(['google'], 'en', 'ru', 'Hello');
+
+    expect(hit).toEqual({ provider: 'google', translation: 'Привет', alternatives: ['Здравствуйте'] });
+    expect(await TranslationCache.getStats()).toMatchObject({ entries: 1, hits: 1, misses: 1 });
+  });
+
+  it('хранит переводы разных провайдеров и языков раздельно', async () => {
+    await TranslationCache.set('google', 'en', 'ru', 'Hello', 'Привет');
+    await TranslationCache.set('mymemory', 'en', 'ru', 'Hello', 'Здравствуйте');
+
+    expect(await TranslationCache.lookup(['libre'], 'en', 'ru', 'Hello')).toBeNull();
+    expect(await TranslationCache.lookup(['google'], 'en', 'uk', 'Hello')).toBeNull();
+    expect((await TranslationCache.lookup(['mymemory', 'google'], 'en', 'ru', 'Hello'))?.translation).toBe('Здравствуйте');
+    expect((await TranslationCache.lookup(['google', 'mymemory'], 'en', 'ru', 'Hello'))?.translation).toBe('Привет');
+  });
+
+  it('предпочитает исправление пользователя ответу провайдера', async () => {
+    await TranslationCache.set('google', 'en', 'ru', 'Hello', 'Привет');
+    await TranslationCache.setCorrection('en', 'ru', 'Hello', 'Приветствую');
+
+    const hit = await TranslationCache.lookup(['google'], 'en', 'ru', 'Hello');
+
+    expect(hit).toMatchObject({ provider: TranslationCache.USER_PROVIDER, translation: 'Приветствую' });
+  });
+
+  it('при выключенном кэше не сохраняет ответы, но использует исправления', async () => {
+    await TranslationCache.configure({ enabled: false });
+    await TranslationCache.set('google', 'en', 'ru', 'Hello', 'Привет');
+    await TranslationCache.setCorrection('en', 'ru', 'Bye', 'Пока');
+
+    expect(await TranslationCache.lookup(['google'], 'en', 'ru', 'Hello')).toBeNull();
+    expect((await TranslationCache.lookup(['google'], 'en', 'ru', 'Bye'))?.translation).toBe('Пока');
+  });
+
+  it('удаляет записи старше срока хранения', async () => {
+    await TranslationCache.configure({ ttlHours: 1 });
+    await TranslationCache.set('google', 'en', 'ru', 'Hello', 'Привет');
+    const createdAt = now;
+
+    setNow(createdAt + HOUR - 1);
+    expect(await TranslationCache.lookup(['google'], 'en', 'ru', 'Hello')).not.toBeNull();
+
+    setNow(createdAt + HOUR + 1);
+    expect(await TranslationCache.lookup(['google'], 'en', 'ru', 'Hello')).toBeNull();
+    expect((await TranslationCache.getStats()).entries).toBe(0);
+  });
+
+  it('не считает исправления устаревшими', async () => {
+    await TranslationCache.configure({ ttlHours: 1 });
+    await TranslationCache.setCorrection('en', 'ru', 'Hello', 'Приветствую');
+
+    setNow(now + 48 * HOUR);
+
+    expect((await TranslationCache.lookup([], 'en', 'ru', 'Hello'))?.translation).toBe('Приветствую');
+  });
+});
+
+describe('TranslationCache eviction', () => {
+  // Лимит в 250 байт вмещает две записи по 100 байт
+  const twoEntriesLimit = 250 / (1024 * 1024);
+
+  it('вытесняет запись, к которой дольше всего не обращались', async () => {
+    await TranslationCache.configure({ maxSizeMb: twoEntriesLimit });
+
+    await TranslationCache.set('google', 'en', 'ru', source('a'), translation('a'));
+    setNow(now + 1);
+    await TranslationCache.set('google', 'en', 'ru', source('b'), translation('b'));
+    setNow(now + 1);
+    // Обращение обновляет время доступа, и первой вытесняется уже «b»
+    await TranslationCache.lookup(['google'], 'en', 'ru', source('a'));
+    setNow(now + 1);
+    await TranslationCache.set('google', 'en', 'ru', source('c'), translation('c'));
+
+    expect(await TranslationCache.lookup(['google'], 'en', 'ru', source('a'))).not.toBeNull();
+    expect(await TranslationCache.lookup(['google'], 'en', 'ru', source('b'))).toBeNull();
+    expect(await TranslationCache.lookup(['google'], 'en', 'ru', source('c'))).not.toBeNull();
+    expect((await TranslationCache.getStats()).sizeBytes).toBe(200);
+  });
+
+  it('применяет уменьшенный лимит сразу', async () => {
+    await TranslationCache.set('google', 'en', 'ru', source('a'), translation('a'));
+    setNow(now + 1);
+    await TranslationCache.set('google', 'en', 'ru', source('b'), translation('b'));
+    setNow(now + 1);
+    await TranslationCache.set('google', 'en', 'ru', source('c'), translation('c'));
+
+    await TranslationCache.configure({ maxSizeMb: twoEntriesLimit });
+
+    expect(await TranslationCache.getStats()).toMatchObject({ entries: 2, sizeBytes: 200 });
+    expect(await TranslationCache.lookup(['google'], 'en', 'ru', source('a'))).toBeNull();
+  });
+
+  it('не вытесняет исправления и не учитывает их в размере', async () => {
+    await TranslationCache.configure({ maxSizeMb: twoEntriesLimit });
+
+    await TranslationCache.setCorrection('en', 'ru', source('x'), translation('x'));
+    setNow(now + 1);
+    await TranslationCache.set('google', 'en', 'ru', source('a'), translation('a'));
+    setNow(now + 1);
+    await TranslationCache.set('google', 'en', 'ru', source('b'), translation('b'));
+
+    expect(await TranslationCache.getStats()).toMatchObject({ entries: 2, sizeBytes: 200, corrections: 1 });
+    expect(await TranslationCache.getCorrections()).toEqual([
+      { fromLang: 'en', toLang: 'ru', source: source('x'), translation: translation('x') }
+    ]);
+  });
+});
+
+describe('TranslationCache.clear', () => {
+  it('удаляет ответы провайдеров, но оставляет исправления пользователя', async () => {
+    await TranslationCache.set('google', 'en', 'ru', 'Hello', 'Привет');
+    await TranslationCache.setCorrection('en', 'ru', 'Bye', 'Пока');
+    await TranslationCache.lookup(['google'], 'en', 'ru', 'Hello');
+
+    await TranslationCache.clear();
+
+    expect(await TranslationCache.getStats()).toMatchObject({ entries: 0, corrections: 1, hits: 0, misses: 0 });
+    expect((await TranslationCache.lookup(['google'], 'en', 'ru', 'Bye'))?.translation).toBe('Пока');
+  });
+
+  it('удаляет исправления только отдельной командой', async () => {
+    await TranslationCache.set('google', 'en', 'ru', 'Hello', 'Привет');
+    await TranslationCache.setCorrection('en', 'ru', 'Bye', 'Пока');
+
+    await TranslationCache.clearCorrections();
+
+    expect(await TranslationCache.getStats()).toMatchObject({ entries: 1, corrections: 0 });
+    expect(await TranslationCache.getCorrections()).toEqual([]);
+  });
+});
@@ -0,0 +1,275 @@
+import { openDatabase, requestToPromise, transactionDone, STORES } from './database';
+
+interface CacheEntry {
+  key: string;
+  provider: string;
+  fromLang: string;
+  toLang: string;
+  source: string;
+  translation: string;
+  // Другие варианты перевода; в старых записях поля нет
+  alternatives?: string[];
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+}
+
+export interface CacheSettings {
+  enabled: boolean;
+  maxSizeMb: number;
+  ttlHours: number;
+}
+
+export interface CacheStats {
+  // Записи и размер кэша без исправлений пользователя: они не входят в лимит размера
+  entries: number;
+  sizeBytes: number;
+  corrections: number;
+  hits: number;
+  misses: number;
+}
+
+export interface CacheCorrection {
+  fromLang: string;
+  toLang: string;
+  source: string;
+  translation: string;
+}
+
+export interface CacheHit {
+  provider: string;
+  translation: string;
+  alternatives: string[];
+}
+
+// Постоянный кэш переводов фрагментов в IndexedDB с вытеснением давно не использованных записей
+export class TranslationCache {
+  // Исправления пользователя хранятся как записи этого «провайдера» и находятся раньше остальных
+  static readonly USER_PROVIDER = 'user';
+  private static readonly SETTINGS_KEY = 'venom-translator:cache';
+  private static readonly DEFAULT_SETTINGS: CacheSettings = {
+    enabled: true,
+    maxSizeMb: 5,
+    ttlHours: 24 * 7
+  };
+
+  private static settings = this.loadSettings();
+  private static hits = 0;
+  private static misses = 0;
+
+  // Ищет перевод по провайдерам в порядке их приоритета; исправление пользователя важнее любого провайдера
+  static async lookup(providers: string[], fromLang: string, toLang: string, text: string): Promise<CacheHit | null> {
+    // Исправления действуют и при выключенном кэше
+    const order = this.settings.enabled ? [this.USER_PROVIDER, ...providers] : [this.USER_PROVIDER];
+
+    try {
+      const db = await openDatabase();
+      const now = Date.now();
+
+      for (const provider of order) {
+        const transaction = db.transaction(STORES.cache, 'readwrite');
+        const store = transaction.objectStore(STORES.cache);
+        const key = this.createKey(provider, fromLang, toLang, text);
+        const entry = await requestToPromise<CacheEntry | undefined>(store.get(key));
+
+        if (!entry) {
+          continue;
+        }
+
+        if (!this.isCorrection(entry) && now - entry.createdAt > this.settings.ttlHours * 3600 * 1000) {
+          store.delete(key);
+          await transactionDone(transaction);
+          continue;
+        }
+
+        store.put({ ...entry, lastAccess: now });
+        await transactionDone(transaction);
+        this.hits++;
+        return { provider: entry.provider, translation: entry.translation, alternatives: entry.alternatives ?? [] };
+      }
+    } catch (error) {
+      console.warn('Translation cache lookup failed:', error);
+    }
+
+    this.misses++;
+    return null;
+  }
+
+  static async set(
+    provider: string,
+    fromLang: string,
+    toLang: string,
+    text: string,
+    translation: string,
+    alternatives: string[] = []
+  ): Promise<void> {
+    if (!this.settings.enabled && provider !== this.USER_PROVIDER) {
+      return;
+    }
+
+    const now = Date.now();
+    const entry: CacheEntry = {
+      key: this.createKey(provider, fromLang, toLang, text),
+      provider,
+      fromLang,
+      toLang,
+      source: text,
+      translation,
+      alternatives,
+      // Строки в JS хранятся в UTF-16, поэтому оцениваем по 2 байта на символ
+      size: (text.length + translation.length + alternatives.join('').length) * 2,
+      createdAt: now,
+      lastAccess: now
+    };
+
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(STORES.cache, 'readwrite');
+      transaction.objectStore(STORES.cache).put(entry);
+      await transactionDone(transaction);
+      await this.evictIfNeeded();
+    } catch (error) {
+      console.warn('Translation cache write failed:', error);
+    }
+  }
+
+  // Перевод, исправленный пользователем; используется вместо ответа провайдеров для этого сегмента
+  static async setCorrection(fromLang: string, toLang: string, text: string, translation: string): Promise<void> {
+    await this.set(this.USER_PROVIDER, fromLang, toLang, text, translation);
+  }
+
+  static async getCorrections(): Promise<CacheCorrection[]> {
+    try {
+      const db = await openDatabase();
+      const entries = await requestToPromise<CacheEntry[]>(
+        db.transaction(STORES.cache).objectStore(STORES.cache).getAll()
+      );
+      return entries
+        .filter(entry => this.isCorrection(entry))
+        .map(({ fromLang, toLang, source, translation }) => ({ fromLang, toLang, source, translation }));
+    } catch (error) {
+      console.warn('Failed to read translation corrections:', error);
+      return [];
+    }
+  }
+
+  // Удаляет сохраненные ответы провайдеров; исправления пользователя остаются
+  static async clear(): Promise<void> {
+    await this.deleteEntries(entry => !this.isCorrection(entry));
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  static async clearCorrections(): Promise<void> {
+    await this.deleteEntries(entry => this.isCorrection(entry));
+  }
+
+  static async getStats(): Promise<CacheStats> {
+    let entries: CacheEntry[] = [];
+    try {
+      const db = await openDatabase();
+      entries = await requestToPromise<CacheEntry[]>(
+        db.transaction(STORES.cache).objectStore(STORES.cache).getAll()
+      );
+    } catch (error) {
+      console.warn('Failed to read translation cache stats:', error);
+    }
+
+    const cached = entries.filter(entry => !this.isCorrection(entry));
+    return {
+      entries: cached.length,
+      sizeBytes: cached.reduce((total, entry) => total + entry.size, 0),
+      corrections: entries.length - cached.length,
+      hits: this.hits,
+      misses: this.misses
+    };
+  }
+
+  static getSettings(): CacheSettings {
+    return { ...this.settings };
+  }
+
+  static async configure(settings: Partial<CacheSettings>): Promise<void> {
+    this.settings = { ...this.settings, ...settings };
+
+    try {
+      localStorage.setItem(this.SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('Failed to save cache settings:', error);
+    }
+
+    // Новый лимит применяем сразу
+    await this.evictIfNeeded();
+  }
+
+  private static async evictIfNeeded(): Promise<void> {
+    const maxBytes = this.settings.maxSizeMb * 1024 * 1024;
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.cache, 'readwrite');
+    const store = transaction.objectStore(STORES.cache);
+    const entries = await requestToPromise<CacheEntry[]>(store.getAll());
+    // Исправления пользователя не вытесняются, поэтому и в лимит не входят
+    let totalSize = entries
+      .filter(entry => !this.isCorrection(entry))
+      .reduce((total, entry) => total + entry.size, 0);
+
+    if (totalSize <= maxBytes) {
+      return;
+    }
+
+    // Удаляем записи, к которым дольше всего не обращались
+    await new Promise<void>((resolve, reject) => {
+      const cursorRequest = store.index('lastAccess').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || totalSize <= maxBytes) {
+          resolve();
+          return;
+        }
+        const entry = cursor.value as CacheEntry;
+        if (!this.isCorrection(entry)) {
+          totalSize -= entry.size;
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+    await transactionDone(transaction);
+  }
+
+  private static async deleteEntries(shouldDelete: (entry: CacheEntry) => boolean): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.cache, 'readwrite');
+    const cursorRequest = transaction.objectStore(STORES.cache).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        return;
+      }
+      if (shouldDelete(cursor.value as CacheEntry)) {
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+    await transactionDone(transaction);
+  }
+
+  private static isCorrection(entry: CacheEntry): boolean {
+    return entry.provider === this.USER_PROVIDER;
+  }
+
+  private static createKey(provider: string, fromLang: string, toLang: string, text: string): string {
+    return `${provider}|${fromLang}|${toLang}|${text}`;
+  }
+
+  private static loadSettings(): CacheSettings {
+    try {
+      const raw = localStorage.getItem(this.SETTINGS_KEY);
+      return raw ? { ...this.DEFAULT_SETTINGS, ...JSON.parse(raw) } : { ...this.DEFAULT_SETTINGS };
+    } catch (error) {
+      console.warn('Failed to load cache settings:', error);
+      return { ...this.DEFAULT_SETTINGS };
+    }
+  }
+}
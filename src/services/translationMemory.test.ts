@@ -0,0 +1,166 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TranslationMemory } from './translationMemory';
+import { TranslationCache } from './translationCache';
+import { HistoryService, TranslationHistory } from './historyService';
+import { openDatabase, STORES, transactionDone } from './database';
+
+const entry = (overrides: Partial<TranslationHistory>): TranslationHistory => ({
+  id: HistoryService.createId(),
+  sourceText: '',
+  translatedText: '',
+  fromLanguage: 'en',
+  toLanguage: 'ru',
+  timestamp: new Date(),
+  sourceType: 'text',
+  pinned: false,
+  ...overrides
+});
+
+// Запись, сохраненная после перевода: фрагменты хранятся с маркерами
+const withSegments = (segments: Array<[string, string]>) => entry({
+  sourceText: segments.map(([source]) => source).join(' '),
+  translatedText: segments.map(([, translation]) => translation).join(' '),
+  segments: segments.map(([source, translation]) => ({ sourceLanguage: 'en', source, translation }))
+});
+
+const remember = async (...entries: TranslationHistory[]) => {
+  await HistoryService.save(entries);
+  TranslationMemory.reset();
+};
+
+beforeEach(async () => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.cache, STORES.history], 'readwrite');
+  transaction.objectStore(STORES.cache).clear();
+  transaction.objectStore(STORES.history).clear();
+  await transactionDone(transaction);
+  TranslationMemory.reset();
+});
+
+afterEach(() => {
+  TranslationMemory.configure({ enabled: true, threshold: 85 });
+  localStorage.clear();
+});
+
+describe('TranslationMemory.lookup', () => {
+  it('находит похожий сегмент выше порога и сообщает сходство', async () => {
+    await remember(withSegments([['Please restart the application now.', 'Пожалуйста, перезапустите приложение сейчас.']]));
+
+    const exact = await TranslationMemory.lookup('en', 'ru', 'Please restart the application now.');
+    const similar = await TranslationMemory.lookup('en', 'ru', 'Please restart the application now!');
+
+    expect(exact).toEqual({ translation: 'Пожалуйста, перезапустите приложение сейчас.', origin: 'history', score: 100 });
+    expect(similar?.score).toBe(97);
+  });
+
+  it('не использует сегменты ниже порога', async () => {
+    await remember(withSegments([['Please restart the application now.', 'Пожалуйста, перезапустите приложение сейчас.']]));
+
+    expect(await TranslationMemory.lookup('en', 'ru', 'Please restart the computer now.')).toBeNull();
+
+    TranslationMemory.configure({ threshold: 70 });
+    expect((await TranslationMemory.lookup('en', 'ru', 'Please restart the computer now.'))?.score).toBe(71);
+  });
+
+  it('ищет только в своей языковой паре и только при включенной памяти', async () => {
+    await remember(withSegments([['Please restart the application.', 'Пожалуйста, перезапустите приложение.']]));
+
+    expect(await TranslationMemory.lookup('en', 'de', 'Please restart the application.')).toBeNull();
+
+    TranslationMemory.configure({ enabled: false });
+    expect(await TranslationMemory.lookup('en', 'ru', 'Please restart the application.')).toBeNull();
+  });
+
+  it('при равном сходстве предпочитает исправление пользователя записи истории', async () => {
+    await remember(withSegments([['Save your changes.', 'Сохраните изменения.']]));
+    await TranslationCache.setCorrection('en', 'ru', 'Save your changes.', 'Сохраните ваши изменения.');
+    TranslationMemory.reset();
+
+    expect(await TranslationMemory.lookup('en', 'ru', 'Save your changes.')).toMatchObject({
+      translation: 'Сохраните ваши изменения.',
+      origin: 'correction'
+    });
+  });
+
+  it('запоминает новые переводы без перестроения', async () => {
+    await TranslationMemory.lookup('en', 'ru', 'Warm up the memory');
+
+    TranslationMemory.remember('en', 'ru', 'Close all windows.', 'Закройте все окна.', 'correction');
+
+    expect((await TranslationMemory.lookup('en', 'ru', 'Close all windows.'))?.origin).toBe('correction');
+  });
+});
+
+describe('TranslationMemory: маркеры', () => {
+  it('подставляет маркеры текущего текста, даже если они пронумерованы иначе', async () => {
+    await remember(withSegments([['Open [[3]] and click [[4]].', 'Откройте [[3]] и нажмите [[4]].']]));
+
+    const match = await TranslationMemory.lookup('en', 'ru', 'Open [[0]] and click [[1]].');
+
+    expect(match?.translation).toBe('Откройте [[0]] и нажмите [[1]].');
+  });
+
+  it('сохраняет порядок маркеров, переставленных в переводе', async () => {
+    await remember(withSegments([['From [[0]] to [[1]] please', 'До [[1]] от [[0]] пожалуйста']]));
+
+    const match = await TranslationMemory.lookup('en', 'ru', 'From [[5]] to [[7]] please');
+
+    expect(match?.translation).toBe('До [[7]] от [[5]] пожалуйста');
+  });
+
+  it('не подходит сегменту с другим числом маркеров', async () => {
+    await remember(withSegments([[
+      'Open the [[0]] settings page in the main application window',
+      'Откройте страницу настроек [[0]] в главном окне приложения'
+    ]]));
+
+    expect(await TranslationMemory.lookup('en', 'ru', 'Open the settings page in the main application window')).toBeNull();
+    // Перевод потерял бы фрагмент [[1]]
+    expect(await TranslationMemory.lookup('en', 'ru', 'Open the [[0]] settings page in the main application window[[1]]')).toBeNull();
+    expect(await TranslationMemory.lookup('en', 'ru', 'Open the [[0]] settings page in the main application window.')).not.toBeNull();
+  });
+
+  it('не запоминает перевод, потерявший маркер', async () => {
+    await remember(withSegments([['Open the [[0]] settings page', 'Откройте страницу настроек']]));
+
+    expect(await TranslationMemory.lookup('en', 'ru', 'Open the [[0]] settings page')).toBeNull();
+  });
+});
+
+describe('TranslationMemory: наполнение', () => {
+  it('не запоминает текст, оставшийся без перевода', async () => {
+    await remember(withSegments([['Untranslated sentence here', 'Untranslated sentence here']]));
+
+    expect(await TranslationMemory.lookup('en', 'ru', 'Untranslated sentence here')).toBeNull();
+  });
+
+  it('берет старые записи без фрагментов, только если в них нечего защищать', async () => {
+    await remember(
+      entry({ sourceText: 'Good morning everyone', translatedText: 'Доброе утро всем' }),
+      entry({ sourceText: 'Visit https://example.com today', translatedText: 'Посетите https://example.com сегодня' }),
+      entry({ sourceText: 'Offline translated text', translatedText: 'Офлайн текст', machineFallback: true })
+    );
+
+    expect((await TranslationMemory.lookup('en', 'ru', 'Good morning everyone'))?.translation).toBe('Доброе утро всем');
+    expect(await TranslationMemory.lookup('en', 'ru', 'Visit https://example.com today')).toBeNull();
+    expect(await TranslationMemory.lookup('en', 'ru', 'Offline translated text')).toBeNull();
+  });
+
+  it('не берет из старых записей текст с терминами глоссария', async () => {
+    localStorage.setItem('venom-translator:glossary', JSON.stringify([{
+      id: 'rule',
+      fromLang: 'en',
+      toLang: 'ru',
+      term: 'Venom',
+      translation: '',
+      caseSensitive: true,
+      wholeWord: true,
+      enabled: true
+    }]));
+    await remember(entry({ sourceText: 'Welcome to Venom today', translatedText: 'Добро пожаловать в Venom сегодня' }));
+
+    expect(await TranslationMemory.lookup('en', 'ru', 'Welcome to Venom today')).toBeNull();
+  });
+});
@@ -0,0 +1,332 @@
+import { HistoryService } from './historyService';
+import { TranslationCache } from './translationCache';
+import { GlossaryService } from './glossaryService';
+import { segmentText } from './segmentation';
+import { Placeholder, createPlaceholderToken } from './placeholders';
+import { protectMarkup } from './markupProtection';
+
+export type MemoryOrigin = 'history' | 'correction';
+
+interface MemoryEntry {
+  source: string;
+  // Маркеры в source и translation перенумерованы по порядку в исходном сегменте
+  translation: string;
+  origin: MemoryOrigin;
+  // Нормализованный исходный текст и его триграммы для быстрого отбора кандидатов
+  normalized: string;
+  trigrams: Set<string>;
+  // Маркеры сегмента в отсортированном виде: перевод подходит только сегменту с теми же маркерами
+  tokens: string;
+}
+
+export interface MemorySettings {
+  enabled: boolean;
+  // Минимальное сходство в процентах, при котором перевод из памяти используется без запроса
+  threshold: number;
+}
+
+export interface MemoryMatch {
+  translation: string;
+  origin: MemoryOrigin;
+  // Сходство с исходным сегментом в процентах
+  score: number;
+}
+
+const normalize = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const getTrigrams = (text: string): Set<string> => {
+  const padded = ` ${text} `;
+  const trigrams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    trigrams.add(padded.slice(i, i + 3));
+  }
+  return trigrams;
+};
+
+// Коэффициент Дайса по триграммам: дешевая оценка, по которой отбираются кандидаты
+const diceSimilarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let common = 0;
+  a.forEach(trigram => {
+    if (b.has(trigram)) common++;
+  });
+  return (2 * common) / (a.size + b.size);
+};
+
+// Сходство по расстоянию Левенштейна: доля символов, которые не пришлось менять
+const editSimilarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) {
+    return 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / longest;
+};
+
+const PLACEHOLDER_TOKENS = /\[\[\s*(\d+)\s*\]\]/g;
+
+const getTokens = (text: string): string =>
+  [...text.matchAll(PLACEHOLDER_TOKENS)].map(([, index]) => index).sort().join(',');
+
+// Маркеры нумеруются в пределах всего текста, поэтому в памяти они перенумерованы по порядку
+// в сегменте: так совпадают одинаковые сегменты из разных текстов. original — исходные номера по порядку
+const renumberPlaceholders = (source: string): { renumber: (text: string) => string | null; original: string[] } => {
+  const order = new Map<string, number>();
+  for (const [, index] of source.matchAll(PLACEHOLDER_TOKENS)) {
+    if (!order.has(index)) {
+      order.set(index, order.size);
+    }
+  }
+
+  return {
+    // null, если в тексте есть маркер, которого нет в исходном сегменте
+    renumber: (text) => {
+      let valid = true;
+      const result = text.replace(PLACEHOLDER_TOKENS, (_, index: string) => {
+        const position = order.get(index);
+        if (position === undefined) {
+          valid = false;
+          return '';
+        }
+        return createPlaceholderToken(position);
+      });
+      return valid ? result : null;
+    },
+    original: [...order.keys()]
+  };
+};
+
+// Личная память переводов из истории и исправлений пользователя с нечетким поиском по сегментам
+export class TranslationMemory {
+  // Так помечаются фрагменты, взятые из памяти переводов
+  static readonly PROVIDER = 'memory';
+  private static readonly SETTINGS_KEY = 'venom-translator:memory';
+  private static readonly DEFAULT_SETTINGS: MemorySettings = {
+    enabled: true,
+    threshold: 85
+  };
+  // Длина сегмента, как при переводе: записи истории разбиваются так же, как переводимый текст
+  private static readonly MAX_SEGMENT_LENGTH = 500;
+  // Сколько кандидатов после отбора по триграммам проверяется точным расстоянием
+  private static readonly MAX_CANDIDATES = 5;
+
+  private static settings = this.loadSettings();
+  // Записи по языковым парам "ru|en"; строятся при первом поиске
+  private static entries: Map<string, MemoryEntry[]> | null = null;
+  private static loading: Promise<Map<string, MemoryEntry[]>> | null = null;
+
+  static async lookup(fromLang: string, toLang: string, text: string): Promise<MemoryMatch | null> {
+    if (!this.settings.enabled) {
+      return null;
+    }
+
+    const { renumber, original } = renumberPlaceholders(text);
+    const normalized = normalize(renumber(text)!);
+    if (!normalized) {
+      return null;
+    }
+    const tokens = getTokens(normalized);
+
+    const entries = (await this.getEntries()).get(this.createPairKey(fromLang, toLang)) ?? [];
+    const threshold = this.settings.threshold / 100;
+    const trigrams = getTrigrams(normalized);
+
+    // Сначала отсекаем записи заметно другой длины и с малым числом общих триграмм
+    const candidates = entries
+      .filter(entry => {
+        const shorter = Math.min(entry.normalized.length, normalized.length);
+        const longer = Math.max(entry.normalized.length, normalized.length);
+        return shorter / longer >= threshold;
+      })
+      .map(entry => ({ entry, dice: diceSimilarity(trigrams, entry.trigrams) }))
+      .filter(({ dice }) => dice >= threshold - 0.1)
+      .sort((a, b) => b.dice - a.dice)
+      .slice(0, this.MAX_CANDIDATES);
+
+    let best: MemoryMatch | null = null;
+    for (const { entry } of candidates) {
+      // Перевод подходит, только если в сегменте те же защищенные фрагменты в том же количестве:
+      // иначе при восстановлении пропали бы ссылки, код или термины
+      if (entry.tokens !== tokens) {
+        continue;
+      }
+
+      const score = Math.round(editSimilarity(normalized, entry.normalized) * 100);
+      // При равном сходстве исправление пользователя важнее записи истории
+      const isBetter = !best || score > best.score || (score === best.score && entry.origin === 'correction');
+      if (score >= this.settings.threshold && isBetter) {
+        best = { translation: entry.translation, origin: entry.origin, score };
+      }
+    }
+
+    // Возвращаем маркерам номера текущего текста
+    return best && {
+      ...best,
+      translation: best.translation.replace(PLACEHOLDER_TOKENS, (_, position: string) =>
+        createPlaceholderToken(Number(original[Number(position)])))
+    };
+  }
+
+  static remember(fromLang: string, toLang: string, source: string, translation: string, origin: MemoryOrigin): void {
+    if (!this.entries) {
+      return;
+    }
+    this.addEntry(this.entries, fromLang, toLang, source, translation, origin);
+  }
+
+  // История изменилась: память будет построена заново при следующем поиске
+  static reset(): void {
+    this.entries = null;
+    this.loading = null;
+  }
+
+  static getSettings(): MemorySettings {
+    return { ...this.settings };
+  }
+
+  static configure(settings: Partial<MemorySettings>): void {
+    this.settings = { ...this.settings, ...settings };
+
+    try {
+      localStorage.setItem(this.SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('Failed to save translation memory settings:', error);
+    }
+  }
+
+  private static getEntries(): Promise<Map<string, MemoryEntry[]>> {
+    if (this.entries) {
+      return Promise.resolve(this.entries);
+    }
+    if (!this.loading) {
+      const loading = this.build();
+      this.loading = loading;
+      loading.then(entries => {
+        // Пока память строилась, ее могли сбросить
+        if (this.loading === loading) {
+          this.entries = entries;
+        }
+      });
+    }
+    return this.loading;
+  }
+
+  private static async build(): Promise<Map<string, MemoryEntry[]>> {
+    const entries = new Map<string, MemoryEntry[]>();
+
+    try {
+      const history = await HistoryService.getAll();
+      history.forEach(item => {
+        if (item.segments) {
+          item.segments.forEach(segment =>
+            this.addEntry(entries, segment.sourceLanguage, item.toLanguage, segment.source, segment.translation, 'history'));
+        } else if (!item.machineFallback) {
+          this.addPairs(entries, item.fromLanguage, item.toLanguage, item.sourceText, item.translatedText);
+        }
+      });
+    } catch (error) {
+      console.warn('Failed to load history for translation memory:', error);
+    }
+
+    // Исправления добавляются последними и при равном сходстве побеждают
+    const corrections = await TranslationCache.getCorrections();
+    corrections.forEach(item => this.addEntry(entries, item.fromLang, item.toLang, item.source, item.translation, 'correction'));
+
+    return entries;
+  }
+
+  // Старые и импортированные записи хранят только готовый текст. Он сравним с сегментами перевода,
+  // только если в нем нечего защищать: восстановленные ссылки и термины глоссария попали бы в память как текст
+  private static addPairs(
+    entries: Map<string, MemoryEntry[]>,
+    fromLang: string,
+    toLang: string,
+    sourceText: string,
+    translatedText: string
+  ): void {
+    if (this.hasProtectedText(sourceText, fromLang, toLang) || this.hasProtectedText(translatedText, fromLang, toLang)) {
+      return;
+    }
+
+    const sources = segmentText(sourceText, this.MAX_SEGMENT_LENGTH).segments;
+    const translations = segmentText(translatedText, this.MAX_SEGMENT_LENGTH).segments;
+
+    if (sources.length === translations.length) {
+      sources.forEach((source, index) => this.addEntry(entries, fromLang, toLang, source, translations[index], 'history'));
+    } else if (sourceText.length <= this.MAX_SEGMENT_LENGTH) {
+      this.addEntry(entries, fromLang, toLang, sourceText.trim(), translatedText.trim(), 'history');
+    }
+  }
+
+  private static addEntry(
+    entries: Map<string, MemoryEntry[]>,
+    fromLang: string,
+    toLang: string,
+    source: string,
+    translation: string,
+    origin: MemoryOrigin
+  ): void {
+    const { renumber } = renumberPlaceholders(source);
+    const renumberedSource = renumber(source)!;
+    const renumberedTranslation = renumber(translation);
+    const normalized = normalize(renumberedSource);
+    const tokens = getTokens(normalized);
+    // Слишком короткие сегменты и строки без букв нечеткий поиск только путает,
+    // а текст, возвращенный без перевода, закрепил бы отсутствие перевода.
+    // Перевод, потерявший или размноживший маркеры, тоже не запоминаем
+    const untranslated = normalize(translation) === normalize(source);
+    if (
+      !renumberedTranslation?.trim() ||
+      normalized.length < 4 ||
+      !/\p{L}/u.test(normalized) ||
+      untranslated ||
+      getTokens(renumberedTranslation) !== tokens
+    ) {
+      return;
+    }
+
+    const key = this.createPairKey(fromLang, toLang);
+    const list = entries.get(key) ?? [];
+    list.push({
+      source: renumberedSource,
+      translation: renumberedTranslation,
+      origin,
+      normalized,
+      trigrams: getTrigrams(normalized),
+      tokens
+    });
+    entries.set(key, list);
+  }
+
+  private static hasProtectedText(text: string, fromLang: string, toLang: string): boolean {
+    const placeholders: Placeholder[] = [];
+    const masked = protectMarkup(text, 'plain', placeholders);
+    GlossaryService.mask(masked, GlossaryService.getRulesFor(fromLang, toLang), placeholders);
+    return placeholders.length > 0;
+  }
+
+  private static createPairKey(fromLang: string, toLang: string): string {
+    return `${fromLang}|${toLang}`;
+  }
+
+  private static loadSettings(): MemorySettings {
+    try {
+      const raw = localStorage.getItem(this.SETTINGS_KEY);
+      return raw ? { ...this.DEFAULT_SETTINGS, ...JSON.parse(raw) } : { ...this.DEFAULT_SETTINGS };
+    } catch (error) {
+      console.warn('Failed to load translation memory settings:', error);
+      return { ...this.DEFAULT_SETTINGS };
+    }
+  }
+}
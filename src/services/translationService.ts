@@ -1,160 +1,658 @@
+import { ProviderRegistry, ProviderTranslation } from './providerRegistry';
+import { TranslationCache } from './translationCache';
+import { TranslationMemory } from './translationMemory';
+import { HistorySegment } from './historyService';
+import { OfflineService } from './offlineService';
+import { DictionaryService } from './dictionaryService';
+import { LanguageIdentifier, LanguageCandidate } from './languageIdentifier';
+import { GlossaryService, GlossaryHit } from './glossaryService';
+import { Placeholder, reapplyPlaceholders, restorePlaceholders, stripPlaceholders } from './placeholders';
+import { TextFormat, protectMarkup } from './markupProtection';
+import { SegmentedText, joinSegments, segmentText, splitSegmentsBySentence } from './segmentation';
+import { CancelledError, isCancelled, throwIfCancelled } from './cancellation';
+import { postProcessTranslation } from './postProcessing';
+import { normalizeLanguageCode } from '../data/languages';
+
+// offline — перевод локальным движком без онлайн-провайдеров; partial — движок перевел не все слова
+export type ChunkFallback = 'offline' | 'partial' | 'dictionary' | 'untranslated';
+
+// Вариант перевода фрагмента; masked — тот же текст с маркерами, в таком виде он лежит в кэше
+export interface TranslationVariant {
+  text: string;
+  masked: string;
+  provider: string;
+}
+
+// Результат перевода одного фрагмента с указанием источника
+export interface ChunkResult {
+  source: string;
+  translation: string;
+  provider: string | null;
+  fallback: ChunkFallback | null;
+  fromCache: boolean;
+  duration: number;
+  // Сегмент с маркерами разметки и терминов: по нему фрагмент ищется в кэше
+  maskedSource: string;
+  // Варианты перевода, включая текущий; пусто, если фрагмент не переводился провайдерами
+  variants: TranslationVariant[];
+  // Сходство с сегментом из памяти переводов в процентах, если перевод взят оттуда
+  memoryScore: number | null;
+  // Исходный язык фрагмента: при автоопределении он определяется для каждого сегмента отдельно
+  sourceLanguage: string;
+}
+
+export interface LanguageDetection {
+  language: string;
+  // Уверенность от 0 до 1; null, если язык назвал провайдер, а локальный классификатор его не предложил
+  confidence: number | null;
+  // Наиболее вероятные языки по локальному классификатору, включая выбранный
+  candidates: LanguageCandidate[];
+  // В тексте заметные части на разных языках
+  mixed: boolean;
+}
+
+export interface TranslationResult {
+  text: string;
+  // Исходный текст: по нему результат мгновенного режима попадает в историю, когда его правят
+  sourceText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  // Заполняется, только если исходный язык определялся автоматически
+  detection: LanguageDetection | null;
+  alreadyInTargetLanguage: boolean;
+  fromCache: boolean;
+  chunks: ChunkResult[];
+  untranslatedChunks: number;
+  glossaryHits: GlossaryHit[];
+  duration: number;
+  // Разделители между фрагментами и маркеры разметки: нужны, чтобы пересобрать текст после выбора варианта
+  separators: string[];
+  placeholders: Placeholder[];
+  // Запись истории с этим переводом, если он в нее попал
+  historyId?: string;
+}
+
+export interface TranslationProgress {
+  targetLanguage: string;
+  done: number;
+  total: number;
+  // Перевод начала текста до первого еще не готового фрагмента
+  partialText: string;
+}
+
+export interface TranslateOptions {
+  // Формат исходного текста: теги, код и переменные не отправляются провайдерам
+  format?: TextFormat;
+  // Отмена прерывает запросы к провайдерам и завершает перевод с CancelledError
+  signal?: AbortSignal;
+  // Предыдущие переводы этого же текста: неизменившиеся сегменты берутся из них без запросов
+  previous?: TranslationResult[];
+  // Каждое предложение — отдельный сегмент: после правки одного слова заново переводится только его предложение
+  bySentence?: boolean;
+  // Вызывается по мере готовности фрагментов, чтобы показывать перевод частями
+  onProgress?: (progress: TranslationProgress) => void;
+}
+
 // Идеальная система перевода с устранением дублирования и максимальным качеством
 export class TranslationService {
-  private static readonly GOOGLE_TRANSLATE_API = 'https://translate.googleapis.com/translate_a/single';
-  private static readonly MYMEMORY_API = 'https://api.mymemory.translated.net/get';
-  private static readonly LIBRE_TRANSLATE_API = 'https://libretranslate.de/translate';
-  
-  // Кэш переводов для избежания повторных запросов
-  private static translationCache = new Map<string, string>();
-  
   // Максимальная длина текста для одного запроса
   private static readonly MAX_CHUNK_SIZE = 500;
+  // Сегменты короче этого числа букв наследуют язык всего текста
+  private static readonly MIN_SEGMENT_DETECTION_LETTERS = 10;
+
+  static async translateText(
+    text: string,
+    fromLang: string,
+    toLang: string,
+    options: TranslateOptions = {}
+  ): Promise<TranslationResult> {
+    const [result] = await this.translateToMany(text, fromLang, [toLang], options);
+    return result;
+  }
 
-  static async translateText(text: string, fromLang: string, toLang: string): Promise<string> {
-    // Если языки одинаковые, возвращаем исходный текст
-    if (fromLang === toLang && fromLang !== 'auto') {
-      return text;
-    }
+  // Перевод одного текста сразу на несколько языков: разметка, определение языка
+  // и разбиение на сегменты выполняются один раз, языки переводятся параллельно
+  static async translateToMany(
+    text: string,
+    fromLang: string,
+    toLangs: string[],
+    options: TranslateOptions = {}
+  ): Promise<TranslationResult[]> {
+    const startedAt = performance.now();
+    const untouched = (toLang: string, sourceLanguage: string, detection: LanguageDetection | null): TranslationResult => ({
+      text,
+      sourceText: text,
+      sourceLanguage,
+      targetLanguage: toLang,
+      detection,
+      alreadyInTargetLanguage: sourceLanguage === toLang,
+      fromCache: false,
+      chunks: [],
+      untranslatedChunks: 0,
+      glossaryHits: [],
+      duration: performance.now() - startedAt,
+      separators: [],
+      placeholders: []
+    });
 
-    const originalText = text;
     const trimmedText = text.trim();
     
     if (!trimmedText) {
-      return text;
+      return toLangs.map(toLang => untouched(toLang, fromLang, null));
     }
 
-    // Проверяем кэш
-    const cacheKey = `${trimmedText}|${fromLang}|${toLang}`;
-    if (this.translationCache.has(cacheKey)) {
-      return this.restoreFormatting(originalText, this.translationCache.get(cacheKey)!);
+    // Нормализуем коды языков
+    const normalizedFromLang = normalizeLanguageCode(fromLang);
+    const normalizedToLangs = toLangs.map(toLang => normalizeLanguageCode(toLang));
+
+    // Если языки одинаковые, возвращаем исходный текст
+    if (normalizedFromLang !== 'auto' && normalizedToLangs.every(toLang => toLang === normalizedFromLang)) {
+      return normalizedToLangs.map(toLang => untouched(toLang, normalizedFromLang, null));
     }
 
-    // Нормализуем коды языков
-    const normalizedFromLang = this.normalizeLanguageCode(fromLang);
-    const normalizedToLang = this.normalizeLanguageCode(toLang);
+    // Непереводимые фрагменты разметки заменяем маркерами до определения языка и перевода
+    const placeholders: Placeholder[] = [];
+    const protectedText = protectMarkup(text, options.format ?? 'plain', placeholders);
 
     // Определяем язык, если установлен auto
-    let detectedFromLang = normalizedFromLang;
-    if (normalizedFromLang === 'auto') {
-      detectedFromLang = await this.detectLanguage(trimmedText);
-      
-      // Если определенный язык совпадает с целевым, возвращаем исходный текст
-      if (detectedFromLang === normalizedToLang) {
-        return originalText;
-      }
+    const detection = normalizedFromLang === 'auto'
+      ? await this.detectLanguage(stripPlaceholders(protectedText) || trimmedText, options.signal)
+      : null;
+    const detectedFromLang = detection?.language ?? normalizedFromLang;
+
+    // Разбиваем текст на сегменты, запоминая переводы строк, отступы и маркеры между ними.
+    // В смешанном тексте абзац на нескольких языках делится еще и по предложениям
+    let segmented = segmentText(protectedText, this.MAX_CHUNK_SIZE);
+    if (options.bySentence) {
+      segmented = splitSegmentsBySentence(segmented, () => true);
+    } else if (detection?.mixed) {
+      segmented = splitSegmentsBySentence(segmented, segment => LanguageIdentifier.isMixed(stripPlaceholders(segment)));
     }
+    const segmentLanguages = segmented.segments.map(segment =>
+      detection ? this.detectSegmentLanguage(segment, detectedFromLang) : detectedFromLang
+    );
 
     try {
-      // Разбиваем текст на оптимальные части
-      const textChunks = this.intelligentTextSplit(trimmedText);
-      const translatedChunks: string[] = [];
-
-      for (const chunk of textChunks) {
-        if (!chunk.trim()) {
-          translatedChunks.push(chunk);
-          continue;
+      return await Promise.all(normalizedToLangs.map(toLang => {
+        // Если весь текст уже на целевом языке, возвращаем его как есть
+        if (segmentLanguages.every(language => language === toLang) && toLang === detectedFromLang) {
+          return untouched(toLang, detectedFromLang, detection);
         }
-
-        const translatedChunk = await this.translateChunk(
-          chunk.trim(), 
-          detectedFromLang, 
-          normalizedToLang
-        );
-        
-        translatedChunks.push(translatedChunk);
-      }
-
-      const result = this.reconstructText(textChunks, translatedChunks);
-      const finalResult = this.postProcessTranslation(result, detectedFromLang, normalizedToLang);
-      
-      // Сохраняем в кэш
-      this.translationCache.set(cacheKey, finalResult);
-      
-      // Ограничиваем размер кэша
-      if (this.translationCache.size > 100) {
-        const firstKey = this.translationCache.keys().next().value;
-        this.translationCache.delete(firstKey);
-      }
-
-      return this.restoreFormatting(originalText, finalResult);
+        return this.translateSegmented(segmented, [...placeholders], detectedFromLang, toLang, options, {
+          startedAt,
+          detection,
+          segmentLanguages,
+          sourceText: text
+        });
+      }));
     } catch (error) {
+      if (isCancelled(error)) {
+        throw error;
+      }
       console.error('Translation error:', error);
       throw new Error(`Ошибка перевода: ${(error as Error).message}`);
     }
   }
 
-  private static intelligentTextSplit(text: string): string[] {
-    // Если текст короткий, не разбиваем
-    if (text.length <= this.MAX_CHUNK_SIZE) {
-      return [text];
+  // Перевод уже разбитого текста на один язык; placeholders — собственная копия для этого языка
+  private static async translateSegmented(
+    segmented: SegmentedText,
+    placeholders: Placeholder[],
+    fromLang: string,
+    toLang: string,
+    options: TranslateOptions,
+    { startedAt, detection, segmentLanguages, sourceText }: {
+      startedAt: number;
+      detection: LanguageDetection | null;
+      segmentLanguages: string[];
+      sourceText: string;
     }
+  ): Promise<TranslationResult> {
+    // Термины глоссария зависят от языковой пары, поэтому маскируются отдельно для каждого языка
+    // и для каждого исходного языка сегментов
+    const rulesByLanguage = new Map([...new Set(segmentLanguages)].map(language => [
+      language,
+      GlossaryService.getRulesFor(language, toLang)
+    ]));
+    const masked: SegmentedText = {
+      ...segmented,
+      segments: segmented.segments.map((segment, index) =>
+        GlossaryService.mask(segment, rulesByLanguage.get(segmentLanguages[index])!, placeholders).text
+      )
+    };
 
-    const chunks: string[] = [];
-    const paragraphs = text.split(/\n\s*\n/);
-
-    for (const paragraph of paragraphs) {
-      if (paragraph.length <= this.MAX_CHUNK_SIZE) {
-        chunks.push(paragraph);
-      } else {
-        // Разбиваем длинные абзацы по предложениям
-        const sentences = this.splitIntoSentences(paragraph);
-        let currentChunk = '';
-
-        for (const sentence of sentences) {
-          if ((currentChunk + sentence).length <= this.MAX_CHUNK_SIZE) {
-            currentChunk += sentence;
-          } else {
-            if (currentChunk) {
-              chunks.push(currentChunk.trim());
-            }
-            currentChunk = sentence;
-          }
+    const previousChunks = this.getReusableChunks(options.previous, fromLang, toLang);
+
+    // Готовые фрагменты по позициям: частичный результат — это начало текста до первого пропуска
+    const completed: Array<ChunkResult | undefined> = new Array(masked.segments.length);
+    const reportProgress = () => {
+      if (!options.onProgress) return;
+      const pending = completed.findIndex(chunk => !chunk);
+      const readyCount = pending === -1 ? completed.length : pending;
+      const translations = completed.slice(0, readyCount).map(chunk => chunk?.translation ?? '');
+      options.onProgress({
+        targetLanguage: toLang,
+        done: completed.filter(Boolean).length,
+        total: completed.length,
+        partialText: restorePlaceholders(joinSegments(masked, translations, readyCount), placeholders).text
+      });
+    };
+
+    // Сегменты переводятся параллельно, планировщик ограничивает число одновременных запросов;
+    // Promise.all сохраняет исходный порядок результатов
+    const chunkResults = await Promise.all(masked.segments.map(async (segment, index): Promise<ChunkResult> => {
+      const chunkResult = await this.translateSegment(
+        segment,
+        placeholders,
+        previousChunks,
+        segmentLanguages[index],
+        toLang,
+        options.signal
+      );
+      completed[index] = chunkResult;
+      reportProgress();
+      return chunkResult;
+    }));
+
+    const restored = restorePlaceholders(this.reconstructText(masked, chunkResults), placeholders);
+    const translatedChunks = chunkResults.filter(chunk => chunk.provider || chunk.fallback);
+
+    return {
+      text: restored.text,
+      sourceText,
+      sourceLanguage: fromLang,
+      targetLanguage: toLang,
+      detection,
+      alreadyInTargetLanguage: false,
+      fromCache: translatedChunks.length > 0 && translatedChunks.every(chunk => chunk.fromCache),
+      chunks: chunkResults.map(chunk => ({
+        ...chunk,
+        source: restorePlaceholders(chunk.source, placeholders).text,
+        translation: restorePlaceholders(chunk.translation, placeholders).text,
+        variants: chunk.variants.map(variant => ({
+          ...variant,
+          text: restorePlaceholders(variant.text, placeholders).text
+        }))
+      })),
+      untranslatedChunks: this.countUntranslated(chunkResults),
+      glossaryHits: GlossaryService.collectHits(restored.restored, [...rulesByLanguage.values()].flat()),
+      duration: performance.now() - startedAt,
+      separators: masked.separators.map(separator => restorePlaceholders(separator, placeholders).text),
+      placeholders
+    };
+  }
+
+  // Один сегмент: без запросов, из прошлого результата или через провайдеров
+  private static async translateSegment(
+    segment: string,
+    placeholders: Placeholder[],
+    previousChunks: Map<string, ChunkResult>,
+    fromLang: string,
+    toLang: string,
+    signal?: AbortSignal
+  ): Promise<ChunkResult> {
+    // Если после замены разметки и терминов переводить нечего или сегмент уже на целевом языке,
+    // провайдеров не вызываем
+    if (fromLang === toLang || !/\p{L}/u.test(stripPlaceholders(segment))) {
+      return {
+        source: segment,
+        translation: segment,
+        provider: null,
+        fallback: null,
+        fromCache: false,
+        duration: 0,
+        maskedSource: segment,
+        variants: [],
+        memoryScore: null,
+        sourceLanguage: fromLang
+      };
+    }
+
+    const reused = previousChunks.get(restorePlaceholders(segment, placeholders).text);
+    if (reused?.sourceLanguage === fromLang) {
+      // Маркеры прошлого результата пронумерованы иначе: переводим фрагмент в маркеры текущей разметки,
+      // иначе исправление и выбор варианта сохранили бы перевод под чужим исходным текстом
+      const remask = (text: string) => reapplyPlaceholders(text, segment, placeholders);
+      return {
+        ...reused,
+        source: segment,
+        maskedSource: segment,
+        translation: remask(reused.translation),
+        variants: reused.variants.map(variant => ({
+          ...variant,
+          text: remask(variant.text),
+          masked: remask(variant.text)
+        })),
+        fromCache: true,
+        duration: 0
+      };
+    }
+
+    const chunkResult = await this.translateChunk(segment, fromLang, toLang, signal);
+    // Исправления пользователя и память переводов показываем ровно в том виде, в каком они сохранены
+    if (chunkResult.provider === TranslationCache.USER_PROVIDER || chunkResult.provider === TranslationMemory.PROVIDER) {
+      return chunkResult;
+    }
+    return {
+      ...chunkResult,
+      translation: postProcessTranslation(chunkResult.translation, segment, toLang),
+      variants: chunkResult.variants.map(variant => ({
+        ...variant,
+        text: postProcessTranslation(variant.masked, segment, toLang)
+      }))
+    };
+  }
+
+  // Выбор другого варианта для фрагмента: выбор запоминается в кэше, текст перевода собирается заново
+  static async chooseVariant(
+    result: TranslationResult,
+    chunkIndex: number,
+    variant: TranslationVariant
+  ): Promise<TranslationResult> {
+    const chunk = result.chunks[chunkIndex];
+    if (!chunk?.provider) {
+      return result;
+    }
+
+    // Запись кладем под провайдера фрагмента, чтобы при следующем поиске она нашлась первой;
+    // выбор для фрагмента из памяти переводов сохраняется как исправление
+    const cacheProvider = ProviderRegistry.get(chunk.provider) ? chunk.provider : TranslationCache.USER_PROVIDER;
+    const alternatives = chunk.variants.filter(item => item !== variant).map(item => item.masked);
+    await TranslationCache.set(
+      cacheProvider,
+      chunk.sourceLanguage,
+      result.targetLanguage,
+      chunk.maskedSource,
+      variant.masked,
+      alternatives
+    );
+
+    return this.replaceChunk(result, chunkIndex, {
+      ...chunk,
+      translation: variant.text,
+      fromCache: false,
+      memoryScore: variant.provider === TranslationMemory.PROVIDER ? chunk.memoryScore : null
+    });
+  }
+
+  // Исправление фрагмента пользователем: сохраняется как предпочтительный перевод этого сегмента
+  // Фрагменты результата для памяти переводов: только переведенные провайдером или исправленные пользователем,
+  // с маркерами, как исправления в кэше
+  static getMemorySegments(result: TranslationResult): HistorySegment[] {
+    return result.chunks
+      .filter(chunk => chunk.provider && chunk.provider !== TranslationMemory.PROVIDER)
+      .map(chunk => ({
+        sourceLanguage: chunk.sourceLanguage,
+        source: chunk.maskedSource,
+        translation: reapplyPlaceholders(chunk.translation, chunk.maskedSource, result.placeholders)
+      }));
+  }
+
+  static async applyCorrection(
+    result: TranslationResult,
+    chunkIndex: number,
+    correction: string
+  ): Promise<TranslationResult> {
+    const chunk = result.chunks[chunkIndex];
+    if (!chunk || correction === chunk.translation) {
+      return result;
+    }
+
+    const masked = reapplyPlaceholders(correction, chunk.maskedSource, result.placeholders);
+    await TranslationCache.setCorrection(chunk.sourceLanguage, result.targetLanguage, chunk.maskedSource, masked);
+    TranslationMemory.remember(chunk.sourceLanguage, result.targetLanguage, chunk.maskedSource, masked, 'correction');
+
+    const userVariant: TranslationVariant = { text: correction, masked, provider: TranslationCache.USER_PROVIDER };
+    return this.replaceChunk(result, chunkIndex, {
+      ...chunk,
+      translation: correction,
+      provider: TranslationCache.USER_PROVIDER,
+      fallback: null,
+      fromCache: false,
+      memoryScore: null,
+      variants: [userVariant, ...chunk.variants.filter(variant => variant.provider !== TranslationCache.USER_PROVIDER)]
+    });
+  }
+
+  // Запрашивает варианты фрагмента у активных провайдеров, которые его еще не переводили
+  static async requestVariants(
+    result: TranslationResult,
+    chunkIndex: number,
+    signal?: AbortSignal
+  ): Promise<TranslationResult> {
+    const chunk = result.chunks[chunkIndex];
+    if (!chunk?.provider) {
+      return result;
+    }
+
+    const { sourceLanguage: fromLang } = chunk;
+    const toLang = result.targetLanguage;
+    const asked = new Set(chunk.variants.map(variant => variant.provider));
+    const variants = [...chunk.variants];
+
+    for (const { provider } of ProviderRegistry.getActiveProviders(fromLang, toLang)) {
+      if (asked.has(provider.id)) {
+        continue;
+      }
+
+      try {
+        const response = await ProviderRegistry.translateWith(provider.id, chunk.maskedSource, fromLang, toLang, signal);
+        const candidates = this.collectVariants(response, chunk.maskedSource, fromLang, toLang);
+        if (candidates.length === 0) {
+          continue;
         }
 
-        if (currentChunk) {
-          chunks.push(currentChunk.trim());
+        await TranslationCache.set(provider.id, fromLang, toLang, chunk.maskedSource, candidates[0], candidates.slice(1));
+        for (const masked of candidates) {
+          const processed = postProcessTranslation(masked, chunk.maskedSource, toLang);
+          const text = restorePlaceholders(processed, result.placeholders).text;
+          if (!variants.some(variant => variant.text === text)) {
+            variants.push({ text, masked, provider: provider.id });
+          }
+        }
+      } catch (error) {
+        if (isCancelled(error)) {
+          throw error;
         }
+        console.warn(`${provider.name} error:`, error);
       }
     }
 
-    return chunks.length > 0 ? chunks : [text];
+    return this.replaceChunk(result, chunkIndex, { ...chunk, variants });
   }
 
-  private static splitIntoSentences(text: string): string[] {
-    // Улучшенное разбиение на предложения с учетом сокращений
-    const abbreviations = /(?:Mr|Mrs|Ms|Dr|Prof|Inc|Ltd|Co|Corp|etc|vs|i\.e|e\.g|a\.m|p\.m|U\.S|U\.K|Ph\.D|B\.A|M\.A)\./gi;
-    
-    // Заменяем сокращения на временные маркеры
-    const tempText = text.replace(abbreviations, (match) => match.replace('.', '<!DOT!>'));
-    
-    // Разбиваем по предложениям
-    const sentences = tempText.split(/[.!?]+(?=\s+[A-ZА-Я]|\s*$)/).filter(s => s.trim());
-    
-    // Восстанавливаем точки в сокращениях
-    return sentences.map(sentence => sentence.replace(/<!DOT!>/g, '.').trim());
+  private static replaceChunk(result: TranslationResult, chunkIndex: number, chunk: ChunkResult): TranslationResult {
+    const chunks = result.chunks.map((item, index) => (index === chunkIndex ? chunk : item));
+    const segmented: SegmentedText = { segments: chunks.map(item => item.source), separators: result.separators };
+
+    return {
+      ...result,
+      text: this.reconstructText(segmented, chunks),
+      chunks,
+      fromCache: false,
+      untranslatedChunks: this.countUntranslated(chunks)
+    };
   }
 
-  private static async translateChunk(text: string, fromLang: string, toLang: string): Promise<string> {
-    const translationMethods = [
-      () => this.tryGoogleTranslate(text, fromLang, toLang),
-      () => this.tryMyMemoryTranslate(text, fromLang, toLang),
-      () => this.tryLibreTranslate(text, fromLang, toLang)
-    ];
+  // Язык отдельного сегмента при автоопределении. Общий язык текста меняем, только если классификатор
+  // уверен в другом языке и почти не допускает общий: в коротком сегменте легко спутать близкие языки
+  private static detectSegmentLanguage(segment: string, textLanguage: string): string {
+    const text = stripPlaceholders(segment);
+    if ((text.match(/\p{L}/gu) ?? []).length < this.MIN_SEGMENT_DETECTION_LETTERS) {
+      return textLanguage;
+    }
+
+    const candidates = LanguageIdentifier.identify(text);
+    const [top] = candidates;
+    const textLanguageConfidence = candidates.find(candidate => candidate.language === textLanguage)?.confidence ?? 0;
+    return top && top.confidence >= LanguageIdentifier.LOW_CONFIDENCE && textLanguageConfidence < 0.2
+      ? top.language
+      : textLanguage;
+  }
+
+  // Переведенные сегменты прошлого результата по исходному тексту; непереведенные запрашиваем заново
+  private static getReusableChunks(
+    previousResults: TranslationResult[] = [],
+    fromLang: string,
+    toLang: string
+  ): Map<string, ChunkResult> {
+    const previous = previousResults.find(result => result.sourceLanguage === fromLang && result.targetLanguage === toLang);
+    if (!previous) {
+      return new Map();
+    }
+
+    return new Map(previous.chunks
+      .filter(chunk => chunk.provider || chunk.fallback === 'dictionary')
+      .map(chunk => [chunk.source, chunk]));
+  }
+
+  private static async translateChunk(
+    text: string,
+    fromLang: string,
+    toLang: string,
+    signal?: AbortSignal
+  ): Promise<ChunkResult> {
+    const startedAt = performance.now();
+    const activeProviders = ProviderRegistry.getActiveProviders(fromLang, toLang);
+
+    // Сначала ищем готовый перевод в постоянном кэше
+    const cached = await TranslationCache.lookup(
+      activeProviders.map(({ provider }) => provider.id),
+      fromLang,
+      toLang,
+      text
+    );
+    if (cached) {
+      return {
+        source: text,
+        translation: cached.translation,
+        provider: cached.provider,
+        fallback: null,
+        fromCache: true,
+        duration: performance.now() - startedAt,
+        maskedSource: text,
+        variants: this.toVariants([cached.translation, ...cached.alternatives], cached.provider),
+        memoryScore: null,
+        sourceLanguage: fromLang
+      };
+    }
+
+    // Затем — похожий сегмент из личной памяти переводов
+    const memoryMatch = await TranslationMemory.lookup(fromLang, toLang, text);
+    if (memoryMatch) {
+      return {
+        source: text,
+        translation: memoryMatch.translation,
+        provider: TranslationMemory.PROVIDER,
+        fallback: null,
+        fromCache: true,
+        duration: performance.now() - startedAt,
+        maskedSource: text,
+        variants: this.toVariants([memoryMatch.translation], TranslationMemory.PROVIDER),
+        memoryScore: memoryMatch.score,
+        sourceLanguage: fromLang
+      };
+    }
 
-    for (const method of translationMethods) {
+    throwIfCancelled(signal);
+
+    // Опрашиваем провайдеров в порядке приоритета из реестра; без сети сразу переходим к локальным движкам
+    const providers = OfflineService.isOffline() ? [] : activeProviders;
+    let networkFailures = 0;
+    for (const { provider } of providers) {
       try {
-        const result = await method();
-        if (this.isValidTranslation(result, text, fromLang, toLang)) {
-          return result;
+        const result = await ProviderRegistry.translateWith(provider.id, text, fromLang, toLang, signal);
+        OfflineService.markReachable();
+        const [translation, ...alternatives] = this.collectVariants(result, text, fromLang, toLang);
+        if (translation) {
+          await TranslationCache.set(provider.id, fromLang, toLang, text, translation, alternatives);
+          return {
+            source: text,
+            translation,
+            provider: provider.id,
+            fallback: null,
+            fromCache: false,
+            duration: performance.now() - startedAt,
+            maskedSource: text,
+            variants: this.toVariants([translation, ...alternatives], provider.id),
+            memoryScore: null,
+            sourceLanguage: fromLang
+          };
         }
       } catch (error) {
-        console.warn('Translation method failed:', error);
+        // Отмененный перевод не должен переходить к следующему провайдеру
+        if (isCancelled(error)) {
+          throw error;
+        }
+        // fetch отклоняется с TypeError, когда запрос вообще не дошел до сервера
+        if (error instanceof TypeError) {
+          networkFailures++;
+        }
+        console.warn(`${provider.name} error:`, error);
         continue;
       }
     }
 
-    // Если все методы не сработали, используем словарь
-    return this.dictionaryTranslation(text, fromLang, toLang);
+    if (providers.length > 0 && networkFailures === providers.length) {
+      OfflineService.markUnreachable();
+    }
+
+    const local = await OfflineService.translate(text, fromLang, toLang, signal);
+    if (local) {
+      return {
+        source: text,
+        translation: local.translation,
+        provider: null,
+        fallback: local.partial ? 'partial' : 'offline',
+        fromCache: false,
+        duration: performance.now() - startedAt,
+        maskedSource: text,
+        variants: [],
+        memoryScore: null,
+        sourceLanguage: fromLang
+      };
+    }
+
+    // Если все методы не сработали, используем установленные словари
+    const dictionaryTranslation = await DictionaryService.translate(text, fromLang, toLang);
+    return {
+      source: text,
+      translation: dictionaryTranslation ?? text,
+      provider: null,
+      fallback: dictionaryTranslation ? 'dictionary' : 'untranslated',
+      fromCache: false,
+      duration: performance.now() - startedAt,
+      maskedSource: text,
+      variants: [],
+      memoryScore: null,
+      sourceLanguage: fromLang
+    };
+  }
+
+  // Очищенные варианты из ответа провайдера: первым идет основной перевод, если он прошел проверку
+  private static collectVariants(
+    result: ProviderTranslation | null,
+    original: string,
+    fromLang: string,
+    toLang: string
+  ): string[] {
+    if (!result) {
+      return [];
+    }
+
+    const translation = this.cleanTranslatedText(result.text);
+    if (!this.isValidTranslation(translation, original, fromLang, toLang)) {
+      return [];
+    }
+
+    const alternatives = (result.alternatives ?? [])
+      .map(alternative => this.cleanTranslatedText(alternative))
+      .filter(alternative => alternative !== translation && this.isValidTranslation(alternative, original, fromLang, toLang));
+    return [translation, ...new Set(alternatives)];
+  }
+
+  private static toVariants(translations: string[], provider: string): TranslationVariant[] {
+    return translations.map(masked => ({ text: masked, masked, provider }));
   }
 
   private static isValidTranslation(translation: string | null, original: string, fromLang: string, toLang: string): boolean {
@@ -199,103 +697,6 @@ export class TranslationService {
     return true;
   }
 
-  private static async tryGoogleTranslate(text: string, fromLang: string, toLang: string): Promise<string | null> {
-    try {
-      const params = new URLSearchParams({
-        client: 'gtx',
-        sl: fromLang === 'auto' ? 'auto' : fromLang,
-        tl: toLang,
-        dt: 't',
-        q: text
-      });
-
-      const response = await fetch(`${this.GOOGLE_TRANSLATE_API}?${params}`, {
-        method: 'GET',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate, br',
-          'DNT': '1',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1'
-        }
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        if (data && data[0] && Array.isArray(data[0])) {
-          const translatedText = data[0]
-            .filter((item: any) => item && item[0])
-            .map((item: any) => item[0])
-            .join('');
-          
-          return this.cleanTranslatedText(translatedText);
-        }
-      }
-    } catch (error) {
-      console.warn('Google Translate error:', error);
-    }
-    return null;
-  }
-
-  private static async tryMyMemoryTranslate(text: string, fromLang: string, toLang: string): Promise<string | null> {
-    try {
-      const params = new URLSearchParams({
-        q: text,
-        langpair: `${fromLang}|${toLang}`,
-        de: 'translator@venom.app',
-        mt: '1'
-      });
-
-      const response = await fetch(`${this.MYMEMORY_API}?${params}`, {
-        headers: {
-          'User-Agent': 'VenomTranslator/1.0'
-        }
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        if (data.responseStatus === 200 && data.responseData?.translatedText) {
-          const translated = data.responseData.translatedText;
-          return this.cleanTranslatedText(translated);
-        }
-      }
-    } catch (error) {
-      console.warn('MyMemory error:', error);
-    }
-    return null;
-  }
-
-  private static async tryLibreTranslate(text: string, fromLang: string, toLang: string): Promise<string | null> {
-    try {
-      const response = await fetch(this.LIBRE_TRANSLATE_API, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'VenomTranslator/1.0'
-        },
-        body: JSON.stringify({
-          q: text,
-          source: fromLang === 'auto' ? 'auto' : fromLang,
-          target: toLang,
-          format: 'text',
-          alternatives: 3
-        })
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.translatedText) {
-          return this.cleanTranslatedText(data.translatedText);
-        }
-      }
-    } catch (error) {
-      console.warn('LibreTranslate error:', error);
-    }
-    return null;
-  }
-
   private static cleanTranslatedText(text: string): string {
     return text
       .replace(/\s+/g, ' ') // Нормализуем пробелы
@@ -304,262 +705,54 @@ export class TranslationService {
       .trim();
   }
 
-  private static postProcessTranslation(text: string, fromLang: string, toLang: string): string {
-    let result = text;
-
-    // Устраняем дублирование предложений
-    result = this.removeDuplicateSentences(result);
-
-    // Исправляем капитализацию
-    result = this.fixCapitalization(result, toLang);
-
-    // Исправляем пунктуацию
-    result = this.fixPunctuation(result, toLang);
-
-    return result;
-  }
-
-  private static removeDuplicateSentences(text: string): string {
-    const sentences = text.split(/([.!?]+)/).filter(s => s.trim());
-    const cleanSentences: string[] = [];
-    const seenSentences = new Set<string>();
-
-    for (let i = 0; i < sentences.length; i += 2) {
-      const sentence = sentences[i]?.trim();
-      const punctuation = sentences[i + 1] || '';
-
-      if (sentence) {
-        const normalizedSentence = sentence.toLowerCase().replace(/\s+/g, ' ');
-        
-        if (!seenSentences.has(normalizedSentence)) {
-          seenSentences.add(normalizedSentence);
-          cleanSentences.push(sentence + punctuation);
-        }
-      }
-    }
-
-    return cleanSentences.join(' ').replace(/\s+/g, ' ').trim();
-  }
-
-  private static fixCapitalization(text: string, toLang: string): string {
-    // Исправляем капитализацию в зависимости от языка
-    const sentences = text.split(/([.!?]+\s*)/);
-    
-    for (let i = 0; i < sentences.length; i += 2) {
-      const sentence = sentences[i];
-      if (sentence && sentence.trim()) {
-        // Делаем первую букву заглавной
-        sentences[i] = sentence.replace(/^\s*([a-zа-яё])/i, (match, letter) => 
-          match.replace(letter, letter.toUpperCase())
-        );
-      }
-    }
-
-    return sentences.join('');
-  }
-
-  private static fixPunctuation(text: string, toLang: string): string {
-    return text
-      .replace(/\s+([.,:;!?])/g, '$1') // Убираем пробелы перед знаками препинания
-      .replace(/([.!?])\s*([a-zа-яё])/gi, '$1 $2') // Добавляем пробел после точки
-      .replace(/\s{2,}/g, ' ') // Убираем множественные пробелы
-      .trim();
-  }
-
-  private static reconstructText(originalChunks: string[], translatedChunks: string[]): string {
-    const result: string[] = [];
-    
-    for (let i = 0; i < originalChunks.length; i++) {
-      const original = originalChunks[i];
-      const translated = translatedChunks[i] || original;
-      
-      // Сохраняем структуру пустых строк и отступов
-      if (!original.trim()) {
-        result.push(original);
-      } else {
-        result.push(translated);
-      }
-    }
-
-    return result.join('\n\n').replace(/\n{3,}/g, '\n\n');
+  // Частично переведенный фрагмент тоже наполовину остался на исходном языке
+  private static countUntranslated(chunks: ChunkResult[]): number {
+    return chunks.filter(chunk => chunk.fallback === 'untranslated' || chunk.fallback === 'partial').length;
   }
 
-  private static restoreFormatting(original: string, translated: string): string {
-    // Сохраняем начальные и конечные пробелы
-    const leadingWhitespace = original.match(/^\s*/)?.[0] || '';
-    const trailingWhitespace = original.match(/\s*$/)?.[0] || '';
-    
-    return leadingWhitespace + translated.trim() + trailingWhitespace;
+  // Собирает текст из переведенных сегментов и исходных разделителей между ними
+  private static reconstructText(segmented: SegmentedText, chunks: ChunkResult[]): string {
+    return joinSegments(segmented, chunks.map(chunk => chunk.translation));
   }
 
-  static async detectLanguage(text: string): Promise<string> {
+  static async detectLanguage(text: string, signal?: AbortSignal): Promise<LanguageDetection> {
     const trimmedText = text.trim().substring(0, 200); // Берем первые 200 символов
+    // Локальный классификатор дает уверенность и альтернативы, даже если язык назовет провайдер
+    const candidates = LanguageIdentifier.identify(text.trim());
+    const mixed = LanguageIdentifier.isMixed(text);
+    const detection = (language: string): LanguageDetection => ({
+      language,
+      confidence: candidates.find(candidate => candidate.language === language)?.confidence ?? null,
+      candidates,
+      mixed
+    });
     
-    // Пробуем Google API для определения языка
-    try {
-      const params = new URLSearchParams({
-        client: 'gtx',
-        sl: 'auto',
-        tl: 'en',
-        dt: 't',
-        q: trimmedText
-      });
+    // Пробуем провайдеров, которые умеют определять язык; без сети — сразу локальное определение
+    const providers = OfflineService.isOffline() ? [] : ProviderRegistry.getActiveProviders('auto', 'en');
+    for (const { provider, config } of providers) {
+      if (!provider.detectLanguage) {
+        continue;
+      }
 
-      const response = await fetch(`${this.GOOGLE_TRANSLATE_API}?${params}`, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        }
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        if (data && data[2]) {
-          const detectedLang = this.normalizeLanguageCode(data[2]);
+      throwIfCancelled(signal);
+      try {
+        const timeout = AbortSignal.timeout(config.timeout);
+        const detected = await provider.detectLanguage(trimmedText, config, signal ? AbortSignal.any([signal, timeout]) : timeout);
+        if (detected) {
+          const detectedLang = normalizeLanguageCode(detected);
           if (detectedLang !== 'auto') {
-            return detectedLang;
+            return detection(detectedLang);
           }
         }
-      }
-    } catch (error) {
-      console.warn('Language detection failed:', error);
-    }
-
-    // Fallback к локальному определению
-    return this.detectLanguageLocally(trimmedText);
-  }
-
-  private static detectLanguageLocally(text: string): string {
-    const lowerText = text.toLowerCase();
-    const totalChars = text.replace(/\s/g, '').length;
-    
-    if (totalChars === 0) return 'en';
-    
-    // Подсчитываем символы разных языков
-    const scriptCounts = {
-      cyrillic: (text.match(/[а-яё]/gi) || []).length,
-      latin: (text.match(/[a-z]/gi) || []).length,
-      chinese: (text.match(/[一-龯]/gi) || []).length,
-      japanese: (text.match(/[ひらがなカタカナ]/gi) || []).length,
-      korean: (text.match(/[가-힣]/gi) || []).length,
-      arabic: (text.match(/[ء-ي]/gi) || []).length
-    };
-
-    // Определяем по преобладающим символам
-    for (const [script, count] of Object.entries(scriptCounts)) {
-      if (count / totalChars > 0.3) {
-        switch (script) {
-          case 'cyrillic': return 'ru';
-          case 'chinese': return 'zh';
-          case 'japanese': return 'ja';
-          case 'korean': return 'ko';
-          case 'arabic': return 'ar';
+      } catch (error) {
+        if (signal?.aborted) {
+          throw new CancelledError();
         }
+        console.warn('Language detection failed:', error);
       }
     }
 
-    // Проверяем специфичные символы для европейских языков
-    const languageMarkers = {
-      'de': /[äöüß]/i,
-      'fr': /[àâäéèêëïîôöùûüÿç]/i,
-      'es': /[áéíóúñü¿¡]/i,
-      'it': /[àèéìíîòóù]/i,
-      'pt': /[ãçõ]/i,
-      'pl': /[ąćęłńóśźż]/i,
-      'tr': /[çğıöşü]/i
-    };
-
-    for (const [lang, pattern] of Object.entries(languageMarkers)) {
-      if (pattern.test(text)) {
-        return lang;
-      }
-    }
-
-    // Анализ по ключевым словам
-    const commonWords = {
-      'ru': ['и', 'в', 'не', 'на', 'я', 'быть', 'он', 'с', 'что', 'а', 'по', 'это', 'она', 'этот', 'к', 'но', 'они', 'мы', 'как', 'из', 'за', 'от', 'до', 'при', 'для', 'или', 'уже', 'если', 'время', 'более', 'нет', 'так', 'вы', 'сказать', 'этого', 'может', 'после', 'слово', 'день', 'его', 'новый', 'два', 'наш', 'том', 'дело', 'жизнь'],
-      'en': ['the', 'be', 'to', 'of', 'and', 'a', 'in', 'that', 'have', 'i', 'it', 'for', 'not', 'on', 'with', 'he', 'as', 'you', 'do', 'at', 'this', 'but', 'his', 'by', 'from', 'they', 'she', 'or', 'an', 'will', 'my', 'one', 'all', 'would', 'there', 'their', 'what', 'so', 'up', 'out', 'if', 'about', 'who', 'get', 'which', 'go', 'me', 'when', 'make', 'can', 'like', 'time', 'no', 'just', 'him', 'know', 'take', 'people', 'into', 'year', 'your', 'good', 'some', 'could', 'them', 'see', 'other', 'than', 'then', 'now', 'look', 'only', 'come', 'its', 'over', 'think', 'also', 'back', 'after', 'use', 'two', 'how', 'our', 'work', 'first', 'well', 'way', 'even', 'new', 'want', 'because', 'any', 'these', 'give', 'day', 'most', 'us'],
-      'es': ['el', 'la', 'de', 'que', 'y', 'a', 'en', 'un', 'ser', 'se', 'no', 'te', 'lo', 'le', 'da', 'su', 'por', 'son', 'con', 'para', 'una', 'del', 'los', 'al', 'todo', 'está', 'muy', 'fue', 'han', 'era', 'sobre', 'mi', 'está', 'entre', 'durante', 'un', 'antes', 'llegar', 'luego', 'mucho', 'haber', 'qué', 'año', 'dos', 'querer', 'entre', 'así', 'primero', 'desde', 'grande', 'eso', 'ni', 'nos', 'llegar', 'pasar', 'tiempo', 'ella', 'sí', 'día', 'uno', 'bien', 'poco', 'deber', 'entonces', 'poner', 'aquí', 'parecer', 'fin', 'tanto', 'donde', 'saber', 'nada', 'cada', 'menos', 'dar', 'cuenta', 'cuando', 'muy', 'sin', 'vez', 'mujer', 'vida', 'igual', 'momento', 'grupo', 'agua', 'realizar', 'guerra', 'historia', 'forma', 'esperar', 'miembro', 'parte'],
-      'fr': ['le', 'de', 'et', 'à', 'un', 'il', 'être', 'et', 'en', 'avoir', 'que', 'pour', 'dans', 'ce', 'son', 'une', 'sur', 'avec', 'ne', 'se', 'pas', 'tout', 'plus', 'par', 'grand', 'ce', 'le', 'il', 'avoir', 'son', 'que', 'se', 'qui', 'en', 'vous', 'sur', 'avec', 'ne', 'y', 'aller', 'en', 'savoir', 'me', 'je', 'voir', 'en', 'au', 'du', 'te', 'donner', 'légal', 'lui', 'ou', 'là', 'marché', 'les', 'mais', 'à', 'elle', 'deux', 'même', 'faire', 'dire', 'sous', 'old', 'mot'],
-      'de': ['der', 'die', 'und', 'in', 'den', 'von', 'zu', 'das', 'mit', 'sich', 'des', 'auf', 'für', 'ist', 'im', 'dem', 'nicht', 'ein', 'eine', 'als', 'auch', 'nach', 'wird', 'an', 'werden', 'aus', 'er', 'hat', 'daß', 'sie', 'zu', 'ein', 'oder', 'aber', 'können', 'haben', 'wir', 'was', 'werden', 'sein', 'einen', 'welche', 'sind', 'noch', 'wie', 'einem', 'über', 'einen', 'so', 'zum', 'war', 'haben', 'nur', 'oder', 'auch', 'es', 'soll', 'werden', 'bei', 'ist', 'des', 'sich', 'ein', 'diesem', 'einer', 'er', 'auch', 'an', 'werden', 'aus', 'zu', 'im', 'sie', 'einem', 'mit', 'nach', 'einer', 'der', 'bei']
-    };
-    
-    const words = lowerText.split(/\s+/).filter(word => word.length > 1);
-    let maxMatches = 0;
-    let detectedLang = 'en';
-    
-    for (const [lang, wordList] of Object.entries(commonWords)) {
-      const matches = words.filter(word => wordList.includes(word)).length;
-      const score = matches / Math.min(words.length, 20); // Нормализуем по количеству слов
-      
-      if (score > maxMatches) {
-        maxMatches = score;
-        detectedLang = lang;
-      }
-    }
-    
-    return detectedLang;
-  }
-
-  private static normalizeLanguageCode(code: string): string {
-    const mapping: Record<string, string> = {
-      'auto': 'auto',
-      'ru': 'ru', 'russian': 'ru',
-      'en': 'en', 'english': 'en',
-      'es': 'es', 'spanish': 'es',
-      'fr': 'fr', 'french': 'fr',
-      'de': 'de', 'german': 'de',
-      'it': 'it', 'italian': 'it',
-      'pt': 'pt', 'portuguese': 'pt',
-      'zh': 'zh', 'chinese': 'zh', 'zh-cn': 'zh',
-      'ja': 'ja', 'japanese': 'ja',
-      'ko': 'ko', 'korean': 'ko',
-      'ar': 'ar', 'arabic': 'ar',
-      'hi': 'hi', 'hindi': 'hi',
-      'tr': 'tr', 'turkish': 'tr',
-      'nl': 'nl', 'dutch': 'nl',
-      'sv': 'sv', 'swedish': 'sv',
-      'da': 'da', 'danish': 'da',
-      'no': 'no', 'norwegian': 'no',
-      'fi': 'fi', 'finnish': 'fi',
-      'pl': 'pl', 'polish': 'pl'
-    };
-    
-    return mapping[code.toLowerCase()] || code;
-  }
-
-  private static dictionaryTranslation(text: string, fromLang: string, toLang: string): string {
-    // Расширенный словарь с контекстными переводами
-    const translations: Record<string, Record<string, string>> = {
-      // Английский -> другие языки
-      'hello': { 'ru': 'привет', 'es': 'hola', 'fr': 'bonjour', 'de': 'hallo', 'it': 'ciao', 'pt': 'olá', 'zh': '你好', 'ja': 'こんにちは', 'ko': '안녕하세요', 'ar': 'مرحبا', 'hi': 'नमस्ते', 'tr': 'merhaba', 'nl': 'hallo', 'sv': 'hej', 'da': 'hej', 'no': 'hei', 'fi': 'hei', 'pl': 'cześć' },
-      'world': { 'ru': 'мир', 'es': 'mundo', 'fr': 'monde', 'de': 'welt', 'it': 'mondo', 'pt': 'mundo', 'zh': '世界', 'ja': '世界', 'ko': '세계', 'ar': 'عالم', 'hi': 'दुनिया', 'tr': 'dünya', 'nl': 'wereld', 'sv': 'värld', 'da': 'verden', 'no': 'verden', 'fi': 'maailma', 'pl': 'świat' },
-      'goodbye': { 'ru': 'до свидания', 'es': 'adiós', 'fr': 'au revoir', 'de': 'auf wiedersehen', 'it': 'arrivederci', 'pt': 'tchau', 'zh': '再见', 'ja': 'さようなら', 'ko': '안녕히 가세요', 'ar': 'وداعا', 'hi': 'अलविदा', 'tr': 'hoşça kal', 'nl': 'tot ziens', 'sv': 'hej då', 'da': 'farvel', 'no': 'ha det', 'fi': 'näkemiin', 'pl': 'do widzenia' },
-      'thank you': { 'ru': 'спасибо', 'es': 'gracias', 'fr': 'merci', 'de': 'danke', 'it': 'grazie', 'pt': 'obrigado', 'zh': '谢谢', 'ja': 'ありがとう', 'ko': '감사합니다', 'ar': 'شكرا', 'hi': 'धन्यवाद', 'tr': 'teşekkür ederim', 'nl': 'dank je', 'sv': 'tack', 'da': 'tak', 'no': 'takk', 'fi': 'kiitos', 'pl': 'dziękuję' },
-      'yes': { 'ru': 'да', 'es': 'sí', 'fr': 'oui', 'de': 'ja', 'it': 'sì', 'pt': 'sim', 'zh': '是', 'ja': 'はい', 'ko': '네', 'ar': 'نعم', 'hi': 'हाँ', 'tr': 'evet', 'nl': 'ja', 'sv': 'ja', 'da': 'ja', 'no': 'ja', 'fi': 'kyllä', 'pl': 'tak' },
-      'no': { 'ru': 'нет', 'es': 'no', 'fr': 'non', 'de': 'nein', 'it': 'no', 'pt': 'não', 'zh': '不', 'ja': 'いいえ', 'ko': '아니요', 'ar': 'لا', 'hi': 'नहीं', 'tr': 'hayır', 'nl': 'nee', 'sv': 'nej', 'da': 'nej', 'no': 'nei', 'fi': 'ei', 'pl': 'nie' },
-      'please': { 'ru': 'пожалуйста', 'es': 'por favor', 'fr': 's\'il vous plaît', 'de': 'bitte', 'it': 'per favore', 'pt': 'por favor', 'zh': '请', 'ja': 'お願いします', 'ko': '제발', 'ar': 'من فضلك', 'hi': 'कृपया', 'tr': 'lütfen', 'nl': 'alsjeblieft', 'sv': 'snälla', 'da': 'tak', 'no': 'takk', 'fi': 'ole hyvä', 'pl': 'proszę' },
-      
-      // Русский -> другие языки
-      'привет': { 'en': 'hello', 'es': 'hola', 'fr': 'bonjour', 'de': 'hallo', 'it': 'ciao', 'pt': 'olá', 'zh': '你好', 'ja': 'こんにちは', 'ko': '안녕하세요', 'ar': 'مرحبا', 'hi': 'नमस्ते', 'tr': 'merhaba', 'nl': 'hallo', 'sv': 'hej', 'da': 'hej', 'no': 'hei', 'fi': 'hei', 'pl': 'cześć' },
-      'мир': { 'en': 'world', 'es': 'mundo', 'fr': 'monde', 'de': 'welt', 'it': 'mondo', 'pt': 'mundo', 'zh': '世界', 'ja': '世界', 'ko': '세계', 'ar': 'عالم', 'hi': 'दुनिया', 'tr': 'dünya', 'nl': 'wereld', 'sv': 'värld', 'da': 'verden', 'no': 'verden', 'fi': 'maailma', 'pl': 'świat' },
-      'спасибо': { 'en': 'thank you', 'es': 'gracias', 'fr': 'merci', 'de': 'danke', 'it': 'grazie', 'pt': 'obrigado', 'zh': '谢谢', 'ja': 'ありがとう', 'ko': '감사합니다', 'ar': 'شكرا', 'hi': 'धन्यवाद', 'tr': 'teşekkür ederim', 'nl': 'dank je', 'sv': 'tack', 'da': 'tak', 'no': 'takk', 'fi': 'kiitos', 'pl': 'dziękuję' },
-      'да': { 'en': 'yes', 'es': 'sí', 'fr': 'oui', 'de': 'ja', 'it': 'sì', 'pt': 'sim', 'zh': '是', 'ja': 'はい', 'ko': '네', 'ar': 'نعم', 'hi': 'हाँ', 'tr': 'evet', 'nl': 'ja', 'sv': 'ja', 'da': 'ja', 'no': 'ja', 'fi': 'kyllä', 'pl': 'tak' },
-      'нет': { 'en': 'no', 'es': 'no', 'fr': 'non', 'de': 'nein', 'it': 'no', 'pt': 'não', 'zh': '不', 'ja': 'いいえ', 'ko': '아니요', 'ar': 'لا', 'hi': 'नहीं', 'tr': 'hayır', 'nl': 'nee', 'sv': 'nej', 'da': 'nej', 'no': 'nei', 'fi': 'ei', 'pl': 'nie' }
-    };
-
-    const lowerText = text.toLowerCase().trim();
-    
-    // Проверяем точные совпадения
-    const translation = translations[lowerText]?.[toLang];
-    if (translation) {
-      // Сохраняем капитализацию оригинала
-      if (text[0] && text[0] === text[0].toUpperCase()) {
-        return translation.charAt(0).toUpperCase() + translation.slice(1);
-      }
-      return translation;
-    }
-
-    // Если перевод не найден, возвращаем исходный текст
-    return text;
+    // Fallback к локальному определению по n-граммам; без букв известных письменностей — английский
+    return candidates.length > 0 ? detection(candidates[0].language) : { language: 'en', confidence: 0, candidates, mixed };
   }
 }
\ No newline at end of file